@@ -0,0 +1,164 @@
+import { revalidateTag } from 'next/cache';
+import { NextRequest, NextResponse } from 'next/server';
+import { getImages, getImagesByPhotographer, getImagesByTag } from '@/lib/queries';
+import { createUploadedImage, UPLOAD_MAX_BYTES, UPLOAD_SECRET_HEADER, uploadCacheTags, UploadError } from '@/lib/uploads';
+import { clampPageSize, decodeCursor } from '@/features/gallery/lib/pagination';
+import { withServerTiming } from '@/features/performance/lib/cache-metrics';
+import { createLogger } from '@/lib/logger';
+import { withRequestContext } from '@/lib/request-context';
+import { clientIp, createRateLimiter } from '@/lib/rate-limit';
+import { hasValidSecret } from '@/lib/secrets';
+
+const log = createLogger('images');
+
+// Next page of the gallery for infinite scroll
+// GET /api/images?category=<slug>&cursor=<cursor>&limit=<n>
+// GET /api/images?tag=<slug>&cursor=<cursor>&limit=<n>
+// GET /api/images?photographer=<author id>&cursor=<cursor>&limit=<n>
+export const GET = withRequestContext(withServerTiming(async (request: NextRequest) => {
+  const { searchParams } = request.nextUrl;
+  const categorySlug = searchParams.get('category') || undefined;
+  const tagSlug = searchParams.get('tag');
+  const photographerId = searchParams.get('photographer');
+  const cursorParam = searchParams.get('cursor');
+  const cursor = decodeCursor(cursorParam);
+  const limit = clampPageSize(searchParams.get('limit'));
+
+  // A cursor that doesn't decode would otherwise serve the first page again,
+  // which infinite scroll appends as duplicates
+  if (cursorParam && !cursor) {
+    return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+  }
+
+  try {
+    const page = tagSlug
+      ? await getImagesByTag(tagSlug, cursor, limit)
+      : photographerId
+        ? await getImagesByPhotographer(photographerId, cursor, limit)
+        : await getImages(categorySlug, cursor, limit);
+
+    return NextResponse.json(page, {
+      headers: {
+        'Cache-Control': 'public, max-age=60, stale-while-revalidate=3600',
+      },
+    });
+  } catch (error) {
+    log.error('Images page failed', { error, category: categorySlug, tag: tagSlug, photographer: photographerId });
+    return NextResponse.json({ images: [], nextCursor: null }, { status: 500 });
+  }
+}));
+
+// Multipart bodies carry a little framing on top of the file itself
+const MAX_BODY_BYTES = UPLOAD_MAX_BYTES + 64 * 1024;
+
+// Checked before the secret too, so it also slows down guessing it
+const uploadLimiter = createRateLimiter({ limit: 20, windowMs: 60 * 60 * 1000 });
+
+// Content-Length can be missing (chunked bodies) or wrong, so the limit is enforced while reading
+async function readBodyWithin(request: NextRequest, maxBytes: number): Promise<Uint8Array<ArrayBuffer> | null> {
+  if (!request.body) return new Uint8Array();
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(new ArrayBuffer(size));
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
+function formText(formData: FormData, name: string) {
+  const value = formData.get(name);
+  return typeof value === 'string' ? value : null;
+}
+
+// Upload a user-contributed image
+// POST /api/images (multipart/form-data: file, title, description?, category?)
+// Authenticated with UPLOAD_SECRET in x-upload-secret or Authorization: Bearer
+export const POST = withRequestContext(async (request: NextRequest) => {
+  const { allowed, retryAfterSeconds } = uploadLimiter.take(clientIp(request));
+  if (!allowed) {
+    return NextResponse.json(
+      { error: 'Too many uploads, try again later' },
+      { status: 429, headers: { 'Retry-After': retryAfterSeconds.toString() } }
+    );
+  }
+
+  const secret = process.env.UPLOAD_SECRET;
+  if (!secret) {
+    log.error('Upload attempted but UPLOAD_SECRET is not configured');
+    return NextResponse.json({ error: 'Uploads are not configured' }, { status: 503 });
+  }
+  if (!hasValidSecret(request, UPLOAD_SECRET_HEADER, secret)) {
+    return NextResponse.json({ error: 'Invalid secret' }, { status: 401 });
+  }
+
+  // Refuse oversized bodies before buffering them
+  const contentLength = Number(request.headers.get('content-length') ?? 0);
+  if (contentLength > MAX_BODY_BYTES) {
+    return NextResponse.json({ error: 'Upload is too large' }, { status: 413 });
+  }
+
+  const body = await readBodyWithin(request, MAX_BODY_BYTES);
+  if (!body) {
+    return NextResponse.json({ error: 'Upload is too large' }, { status: 413 });
+  }
+
+  let formData: FormData;
+  try {
+    // Parsed from the bytes already read - the request stream is consumed
+    formData = await new Response(body, {
+      headers: { 'Content-Type': request.headers.get('content-type') ?? '' },
+    }).formData();
+  } catch {
+    return NextResponse.json({ error: 'Expected a multipart/form-data body' }, { status: 400 });
+  }
+
+  const file = formData.get('file');
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: 'Missing "file" field' }, { status: 400 });
+  }
+
+  try {
+    const categorySlug = formText(formData, 'category');
+    const image = await createUploadedImage({
+      file: Buffer.from(await file.arrayBuffer()),
+      mimeType: file.type,
+      title: formText(formData, 'title') ?? '',
+      description: formText(formData, 'description'),
+      categorySlug,
+    });
+
+    // Listings, counts and the category's pages show the new image right away
+    for (const tag of uploadCacheTags(categorySlug)) {
+      revalidateTag(tag);
+    }
+
+    return NextResponse.json({ image }, { status: 201 });
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    log.error('Image upload failed', { error });
+    return NextResponse.json({ error: 'Failed to store image' }, { status: 500 });
+  }
+});
+
+// Allow dynamic behavior for database queries
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { matchesETag, prefetchETag, prefetchImagesFor } from '@/features/performance/lib/prefetch-images';
+import { PREFETCH_IMAGES_PATH } from '@/features/performance/lib/prefetch-api';
+import { withServerTiming } from '@/features/performance/lib/cache-metrics';
+import { createLogger } from '@/lib/logger';
+import { withRequestContext } from '@/lib/request-context';
+
+const log = createLogger('prefetch');
+
+// NextFaster's prefetch-images API pattern
+// GET /api/prefetch-images/<page path>?<page query> - the images that page loads eagerly
+// e.g. /api/prefetch-images/image/abc123, /api/prefetch-images?category=nature, /api/prefetch-images/search?q=sea
+export const GET = withRequestContext(withServerTiming(async (request: NextRequest) => {
+  const href = `${request.nextUrl.pathname.slice(PREFETCH_IMAGES_PATH.length) || '/'}${request.nextUrl.search}`;
+
+  try {
+    const manifest = await prefetchImagesFor(href);
+    if (!manifest) {
+      return NextResponse.json({ images: [] });
+    }
+
+    log.debug('Resolved images', { href, source: manifest.source, count: manifest.images.length });
+
+    const body = JSON.stringify({ images: manifest.images });
+    const etag = prefetchETag(body);
+    const headers = {
+      'Cache-Control': manifest.cacheControl,
+      'ETag': etag,
+    };
+
+    // A link seen again after max-age only costs a 304
+    if (matchesETag(request.headers.get('if-none-match'), etag)) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    return new NextResponse(body, {
+      headers: { ...headers, 'Content-Type': 'application/json' },
+    });
+
+  } catch (error) {
+    log.error('Prefetch failed', { href, error });
+    return NextResponse.json({ images: [] });
+  }
+}));
+
+// Allow dynamic behavior for database queries
+export const dynamic = 'force-dynamic';
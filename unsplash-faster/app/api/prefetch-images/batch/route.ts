@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prefetchImagesFor } from '@/features/performance/lib/prefetch-images';
+import {
+  PREFETCH_BATCH_MAX,
+  type PrefetchBatchResponse,
+  type PrefetchImage,
+} from '@/features/performance/lib/prefetch-api';
+import { withServerTiming } from '@/features/performance/lib/cache-metrics';
+import { createLogger } from '@/lib/logger';
+import { withRequestContext } from '@/lib/request-context';
+
+const log = createLogger('prefetch');
+
+// Hrefs resolved at once - cached routes are cheap, but a scraped page is a full render
+const RESOLVE_CONCURRENCY = 6;
+
+function isHref(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith('/') && value.length <= 2048;
+}
+
+// Many links' images in one round trip - OptimizedLink batches the links that scroll into view together
+// POST /api/prefetch-images/batch { "hrefs": ["/image/abc", "/tag/sunset"] }
+export const POST = withRequestContext(withServerTiming(async (request: NextRequest) => {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Expected a JSON body' }, { status: 400 });
+  }
+
+  const hrefs = (body as { hrefs?: unknown } | null)?.hrefs;
+  if (!Array.isArray(hrefs) || hrefs.length === 0 || hrefs.length > PREFETCH_BATCH_MAX || !hrefs.every(isHref)) {
+    return NextResponse.json(
+      { error: `"hrefs" must be a list of 1-${PREFETCH_BATCH_MAX} paths starting with /` },
+      { status: 400 }
+    );
+  }
+
+  const unique = Array.from(new Set(hrefs));
+  const results: Record<string, PrefetchImage[]> = {};
+  let next = 0;
+
+  // A fixed pool of workers pulling from the list; one failing href doesn't fail the batch
+  const worker = async () => {
+    while (next < unique.length) {
+      const href = unique[next++];
+      try {
+        const manifest = await prefetchImagesFor(href);
+        results[href] = manifest?.images ?? [];
+      } catch (error) {
+        log.error('Prefetch failed', { href, error });
+        results[href] = [];
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(RESOLVE_CONCURRENCY, unique.length) }, worker));
+
+  log.debug('Resolved batch', { hrefs: unique.length });
+  return NextResponse.json({ results } satisfies PrefetchBatchResponse);
+}));
+
+// Allow dynamic behavior for database queries
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,52 @@
+import { revalidateTag } from 'next/cache';
+import { NextRequest, NextResponse } from 'next/server';
+import { isCacheTag } from '@/features/performance/lib/cache';
+import { REVALIDATE_SECRET_HEADER } from '@/features/performance/lib/revalidate';
+import { createLogger } from '@/lib/logger';
+import { withRequestContext } from '@/lib/request-context';
+import { hasValidSecret } from '@/lib/secrets';
+
+const log = createLogger('cache');
+
+// Enough for an ingest run's image:<id> tags in one call
+const MAX_TAGS = 1000;
+
+// Invalidate cached queries by tag (see CACHE_TAGS)
+// POST /api/revalidate { "tags": ["images", "category:nature", "image:abc123"] }
+// Authenticated with REVALIDATE_SECRET in x-revalidate-secret or Authorization: Bearer
+export const POST = withRequestContext(async (request: NextRequest) => {
+  const secret = process.env.REVALIDATE_SECRET;
+  if (!secret) {
+    log.error('Revalidation requested but REVALIDATE_SECRET is not configured');
+    return NextResponse.json({ error: 'Revalidation is not configured' }, { status: 503 });
+  }
+  if (!hasValidSecret(request, REVALIDATE_SECRET_HEADER, secret)) {
+    return NextResponse.json({ error: 'Invalid secret' }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Expected a JSON body' }, { status: 400 });
+  }
+
+  const tags = (body as { tags?: unknown } | null)?.tags;
+  if (!Array.isArray(tags) || tags.length === 0 || tags.length > MAX_TAGS) {
+    return NextResponse.json({ error: `"tags" must be a list of 1-${MAX_TAGS} cache tags` }, { status: 400 });
+  }
+
+  const invalid = tags.filter(tag => typeof tag !== 'string' || !isCacheTag(tag));
+  if (invalid.length > 0) {
+    return NextResponse.json({ error: 'Unknown cache tags', invalid }, { status: 400 });
+  }
+
+  for (const tag of tags as string[]) {
+    revalidateTag(tag);
+  }
+  log.info('Revalidated cache tags', { count: tags.length });
+
+  return NextResponse.json({ revalidated: tags, now: Date.now() });
+});
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSearchSuggestions } from '@/lib/queries';
+import { SUGGESTION_MIN_LENGTH } from '@/features/search/lib/suggestions';
+import { withServerTiming } from '@/features/performance/lib/cache-metrics';
+import { createLogger } from '@/lib/logger';
+import { withRequestContext } from '@/lib/request-context';
+
+const log = createLogger('search');
+
+// Suggestions for the SearchBar dropdown
+// GET /api/search/suggestions?q=<term>
+export const GET = withRequestContext(withServerTiming(async (request: NextRequest) => {
+  const query = request.nextUrl.searchParams.get('q')?.trim() || '';
+
+  if (query.length < SUGGESTION_MIN_LENGTH) {
+    return NextResponse.json({ suggestions: [] });
+  }
+
+  try {
+    const suggestions = await getSearchSuggestions(query);
+
+    return NextResponse.json(
+      { suggestions },
+      {
+        headers: {
+          'Cache-Control': 'public, max-age=60, stale-while-revalidate=3600',
+        },
+      }
+    );
+  } catch (error) {
+    log.error('Search suggestions failed', { error, query });
+    return NextResponse.json({ suggestions: [] }, { status: 500 });
+  }
+}));
+
+// Allow dynamic behavior for database queries
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  CACHE_STATUSES,
+  NAVIGATION_TYPES,
+  VITAL_NAMES,
+  VITAL_RATINGS,
+  VITALS_BATCH_MAX,
+  type VitalSample,
+} from '@/features/performance/lib/vitals-api';
+import { pruneWebVitalsIfDue, recordWebVitals } from '@/lib/web-vitals';
+import { createLogger } from '@/lib/logger';
+import { clientIp, createRateLimiter } from '@/lib/rate-limit';
+import { withRequestContext } from '@/lib/request-context';
+
+const log = createLogger('vitals');
+
+// Anything slower is a tab left in the background, not a measurement (ms; CLS is far below)
+const MAX_VALUE = 10 * 60 * 1000;
+
+// A page view sends one or two beacons, so this only stops clients flooding the report
+const beaconLimiter = createRateLimiter({ limit: 30, windowMs: 60 * 1000 });
+
+function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return typeof value === 'string' && (values as readonly string[]).includes(value);
+}
+
+function parseSample(value: unknown): VitalSample | null {
+  const sample = value as Partial<Record<keyof VitalSample, unknown>> | null;
+  if (!sample || typeof sample !== 'object') return null;
+
+  const valid =
+    isOneOf(VITAL_NAMES, sample.name) &&
+    typeof sample.value === 'number' && Number.isFinite(sample.value) &&
+    sample.value >= 0 && sample.value <= MAX_VALUE &&
+    (sample.rating === null || isOneOf(VITAL_RATINGS, sample.rating)) &&
+    typeof sample.path === 'string' && sample.path.startsWith('/') && sample.path.length <= 2048 &&
+    isOneOf(NAVIGATION_TYPES, sample.navigationType) &&
+    typeof sample.prefetched === 'boolean' &&
+    (sample.cacheStatus === null || isOneOf(CACHE_STATUSES, sample.cacheStatus));
+
+  return valid ? sample as VitalSample : null;
+}
+
+// Real-user samples from WebVitalsReporter, usually sent with navigator.sendBeacon
+// POST /api/vitals { "samples": [{ "name": "LCP", "value": 1234.5, "path": "/image/abc", ... }] }
+// Malformed samples are dropped rather than failing the batch - a beacon can't retry anyway
+export const POST = withRequestContext(async (request: NextRequest) => {
+  const { allowed, retryAfterSeconds } = beaconLimiter.take(clientIp(request));
+  if (!allowed) {
+    return NextResponse.json(
+      { error: 'Too many samples, try again later' },
+      { status: 429, headers: { 'Retry-After': retryAfterSeconds.toString() } }
+    );
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Expected a JSON body' }, { status: 400 });
+  }
+
+  const samples = (body as { samples?: unknown } | null)?.samples;
+  if (!Array.isArray(samples) || samples.length === 0 || samples.length > VITALS_BATCH_MAX) {
+    return NextResponse.json(
+      { error: `"samples" must be a list of 1-${VITALS_BATCH_MAX} samples` },
+      { status: 400 }
+    );
+  }
+
+  const valid = samples.map(parseSample).filter((sample): sample is VitalSample => sample !== null);
+  if (valid.length < samples.length) {
+    log.debug('Dropped malformed samples', { dropped: samples.length - valid.length });
+  }
+
+  try {
+    await recordWebVitals(valid);
+  } catch (error) {
+    log.error('Failed to store web vitals', { error, samples: valid.length });
+    return NextResponse.json({ error: 'Failed to store samples' }, { status: 500 });
+  }
+
+  // Samples past VITALS_RETENTION_DAYS go in the background; the beacon doesn't wait
+  pruneWebVitalsIfDue()
+    .then((deleted) => {
+      if (deleted) log.info('Pruned old web vitals', { deleted });
+    })
+    .catch((error) => log.error('Failed to prune web vitals', { error }));
+
+  return new NextResponse(null, { status: 204 });
+});
+
+// Allow dynamic behavior for database queries
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,103 @@
+import { notFound } from 'next/navigation'
+import { revalidatePath } from 'next/cache'
+import { getCacheMetrics, resetCacheMetrics } from '@/features/performance/lib/cache-metrics'
+
+// Live numbers from this server process - never prerendered
+export const dynamic = 'force-dynamic'
+
+async function resetMetrics() {
+  'use server'
+  if (process.env.NODE_ENV !== 'development') return
+  resetCacheMetrics()
+  revalidatePath('/debug/cache')
+}
+
+function formatMs(value: number | null) {
+  return value === null ? '–' : `${value.toFixed(1)} ms`
+}
+
+function formatBytes(value: number | null) {
+  if (value === null) return '–'
+  return value < 1024 ? `${Math.round(value)} B` : `${(value / 1024).toFixed(1)} KB`
+}
+
+function formatRate(value: number | null) {
+  return value === null ? '–' : `${Math.round(value * 100)}%`
+}
+
+export default function CacheDebugPage() {
+  // Development only - production builds answer 404
+  if (process.env.NODE_ENV !== 'development') {
+    notFound()
+  }
+
+  const metrics = getCacheMetrics()
+  const totals = metrics.reduce(
+    (sum, family) => ({
+      calls: sum.calls + family.calls,
+      deduped: sum.deduped + family.deduped,
+      hits: sum.hits + family.hits,
+      misses: sum.misses + family.misses,
+    }),
+    { calls: 0, deduped: 0, hits: 0, misses: 0 }
+  )
+
+  return (
+    <main className="min-h-screen bg-white p-6">
+      <div className="flex items-start justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Cache</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Per key family since the dev server started: {totals.calls} calls, {totals.deduped} deduplicated by React,{' '}
+            {totals.hits} served from the data cache, {totals.misses} sent to Postgres
+          </p>
+        </div>
+        <form action={resetMetrics}>
+          <button
+            type="submit"
+            className="px-3 py-1.5 text-sm bg-gray-100 text-gray-700 rounded hover:bg-gray-200 transition-colors"
+          >
+            Reset
+          </button>
+        </form>
+      </div>
+
+      {metrics.length === 0 ? (
+        <p className="text-gray-500">No cached queries have run yet - browse the site and reload.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 text-left text-gray-500">
+              <th className="py-2 pr-4 font-medium">Key family</th>
+              <th className="py-2 pr-4 font-medium text-right">Calls</th>
+              <th className="py-2 pr-4 font-medium text-right">Deduped</th>
+              <th className="py-2 pr-4 font-medium text-right">Hits</th>
+              <th className="py-2 pr-4 font-medium text-right">Misses</th>
+              <th className="py-2 pr-4 font-medium text-right">Hit rate</th>
+              <th className="py-2 pr-4 font-medium text-right">Lookup avg</th>
+              <th className="py-2 pr-4 font-medium text-right">Lookup p95</th>
+              <th className="py-2 pr-4 font-medium text-right">Query avg</th>
+              <th className="py-2 font-medium text-right">Payload avg</th>
+            </tr>
+          </thead>
+          <tbody>
+            {metrics.map(family => (
+              <tr key={family.family} className="border-b border-gray-100 text-gray-900 tabular-nums">
+                <td className="py-2 pr-4 font-mono">{family.family}</td>
+                <td className="py-2 pr-4 text-right">{family.calls}</td>
+                <td className="py-2 pr-4 text-right">{family.deduped}</td>
+                <td className="py-2 pr-4 text-right">{family.hits}</td>
+                <td className="py-2 pr-4 text-right">{family.misses}</td>
+                <td className="py-2 pr-4 text-right">{formatRate(family.hitRate)}</td>
+                <td className="py-2 pr-4 text-right">{formatMs(family.lookupAvgMs)}</td>
+                <td className="py-2 pr-4 text-right">{formatMs(family.lookupP95Ms)}</td>
+                <td className="py-2 pr-4 text-right">{formatMs(family.queryAvgMs)}</td>
+                <td className="py-2 text-right">{formatBytes(family.payloadAvgBytes)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </main>
+  )
+}
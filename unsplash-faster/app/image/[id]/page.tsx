@@ -2,7 +2,16 @@ import { Suspense } from 'react'
 import { notFound } from 'next/navigation'
 import Image from 'next/image'
 import { OptimizedLink } from '@/components/custom/OptimizedLink'
-import { getImageById, getAllImages } from '@/lib/queries'
+import { getAdjacentImages, getImageById, getImages, getRelatedImages, getTagsForImage } from '@/lib/queries'
+import { imageAttribution } from '@/lib/image-source'
+import { ImageNavigation } from '@/features/gallery/components/ImageNavigation'
+import { RelatedImages } from '@/features/gallery/components/RelatedImages'
+import { SpeculationRules } from '@/features/performance/components/SpeculationRules'
+import { NEIGHBOUR_SPECULATION } from '@/features/performance/lib/speculation'
+import { detailImageProps } from '@/features/gallery/lib/image-props'
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('gallery')
 
 interface ImagePageProps {
     params: Promise<{ id: string }>
@@ -21,6 +30,11 @@ function LoadingImageDetail() {
     )
 }
 
+async function MoreLikeThis({ imageId }: { imageId: number }) {
+    const related = await getRelatedImages(imageId)
+    return <RelatedImages images={related} />
+}
+
 async function ImageDetail({ id }: { id: string }) {
     const image = await getImageById(id)
 
@@ -28,8 +42,16 @@ async function ImageDetail({ id }: { id: string }) {
         notFound()
     }
 
-    // Server-side logging for debugging
-    console.log(`🎯 IMAGE PAGE: Loading image with FULL URL:`, image.imageUrl)
+    const [imageTags, adjacent] = await Promise.all([
+        getTagsForImage(image.id),
+        getAdjacentImages(image.id),
+    ])
+    const attribution = imageAttribution(image)
+    const neighbourHrefs = [adjacent.previous, adjacent.next]
+        .filter((neighbour) => neighbour !== null)
+        .map((neighbour) => `/image/${neighbour.publicId}`)
+
+    log.debug('Rendering image page', { publicId: image.publicId, imageUrl: image.imageUrl })
 
     return (
         <div className="max-w-6xl mx-auto p-6">
@@ -45,18 +67,27 @@ async function ImageDetail({ id }: { id: string }) {
                 Back to Gallery
             </OptimizedLink>
 
+            {/* Previous/next within the category, also on the arrow keys */}
+            <div className="mb-6">
+                <SpeculationRules route="image" targets={{ urls: neighbourHrefs }} eagerness={NEIGHBOUR_SPECULATION}>
+                    <ImageNavigation adjacent={adjacent} />
+                </SpeculationRules>
+            </div>
+
             {/* Image and details - Left-Right Layout */}
             <div className="grid lg:grid-cols-2 gap-8">
                 {/* Image - Left Side */}
-                <div className="relative aspect-[4/3] bg-gray-100 rounded-lg overflow-hidden">
+                <div
+                    className="relative aspect-[4/3] bg-gray-100 rounded-lg overflow-hidden"
+                    style={image.dominantColor ? { backgroundColor: image.dominantColor } : undefined}
+                >
                     <Image
-                        src={image.imageUrl}
+                        {...detailImageProps(image)}
                         alt={image.title}
                         fill
+                        placeholder={image.blurDataUrl ? 'blur' : 'empty'}
+                        blurDataURL={image.blurDataUrl ?? undefined}
                         className="object-contain"
-                        priority
-                        quality={90}
-                        sizes="(max-width: 768px) 100vw, 50vw"
                     />
                 </div>
 
@@ -81,12 +112,51 @@ async function ImageDetail({ id }: { id: string }) {
                         <dl className="grid grid-cols-2 gap-4 text-sm">
                             <div>
                                 <dt className="font-medium text-gray-500">Photographer</dt>
-                                <dd className="text-gray-900">{image.unsplashUserName || 'Unknown'}</dd>
+                                <dd className="text-gray-900">
+                                    {attribution.authorHref && attribution.authorIsInternal ? (
+                                        <OptimizedLink
+                                            href={attribution.authorHref}
+                                            className="text-blue-600 hover:text-blue-800 transition-colors"
+                                        >
+                                            {attribution.authorName || 'Unknown'}
+                                        </OptimizedLink>
+                                    ) : attribution.authorHref ? (
+                                        <a
+                                            href={attribution.authorHref}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="text-blue-600 hover:text-blue-800 transition-colors"
+                                        >
+                                            {attribution.authorName || 'Unknown'}
+                                        </a>
+                                    ) : (
+                                        attribution.authorName || 'Unknown'
+                                    )}
+                                </dd>
                             </div>
                             <div>
-                                <dt className="font-medium text-gray-500">Likes</dt>
-                                <dd className="text-gray-900">{image.unsplashLikes || 0}</dd>
+                                <dt className="font-medium text-gray-500">Source</dt>
+                                <dd className="text-gray-900">
+                                    {attribution.sourceHref ? (
+                                        <a
+                                            href={attribution.sourceHref}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="text-blue-600 hover:text-blue-800 transition-colors"
+                                        >
+                                            {attribution.sourceLabel}
+                                        </a>
+                                    ) : (
+                                        attribution.sourceLabel
+                                    )}
+                                </dd>
                             </div>
+                            {image.likes !== null && (
+                                <div>
+                                    <dt className="font-medium text-gray-500">Likes</dt>
+                                    <dd className="text-gray-900">{image.likes}</dd>
+                                </div>
+                            )}
                             <div>
                                 <dt className="font-medium text-gray-500">Category</dt>
                                 <dd className="text-gray-900">{image.category.name}</dd>
@@ -95,9 +165,58 @@ async function ImageDetail({ id }: { id: string }) {
                                 <dt className="font-medium text-gray-500">Dimensions</dt>
                                 <dd className="text-gray-900">{image.width} × {image.height}</dd>
                             </div>
+                            {image.exif && (image.exif.make || image.exif.model) && (
+                                <div>
+                                    <dt className="font-medium text-gray-500">Camera</dt>
+                                    <dd className="text-gray-900">
+                                        {[image.exif.make, image.exif.model].filter(Boolean).join(' ')}
+                                    </dd>
+                                </div>
+                            )}
+                            {image.exif && (image.exif.focalLength || image.exif.aperture || image.exif.exposureTime || image.exif.iso) && (
+                                <div>
+                                    <dt className="font-medium text-gray-500">Settings</dt>
+                                    <dd className="text-gray-900">
+                                        {[
+                                            image.exif.focalLength && `${image.exif.focalLength}mm`,
+                                            image.exif.aperture && `f/${image.exif.aperture}`,
+                                            image.exif.exposureTime && `${image.exif.exposureTime}s`,
+                                            image.exif.iso && `ISO ${image.exif.iso}`,
+                                        ].filter(Boolean).join(' · ')}
+                                    </dd>
+                                </div>
+                            )}
+                            {image.location && (
+                                <div>
+                                    <dt className="font-medium text-gray-500">Location</dt>
+                                    <dd className="text-gray-900">
+                                        {image.location.name || [image.location.city, image.location.country].filter(Boolean).join(', ')}
+                                    </dd>
+                                </div>
+                            )}
                         </dl>
                     </div>
 
+                    {/* Tags */}
+                    {imageTags.length > 0 && (
+                        <div className="border-t pt-6">
+                            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                                Tags
+                            </h2>
+                            <div className="flex flex-wrap gap-2">
+                                {imageTags.map(tag => (
+                                    <OptimizedLink
+                                        key={tag.id}
+                                        href={`/tag/${tag.slug}`}
+                                        className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-full hover:bg-blue-50 hover:text-blue-700 transition-colors"
+                                    >
+                                        #{tag.name}
+                                    </OptimizedLink>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     {/* Download Link */}
                     <div className="border-t pt-6">
                         <a
@@ -111,6 +230,11 @@ async function ImageDetail({ id }: { id: string }) {
                     </div>
                 </div>
             </div>
+
+            {/* More like this - streamed in after the main image */}
+            <Suspense fallback={null}>
+                <MoreLikeThis imageId={image.id} />
+            </Suspense>
         </div>
     )
 }
@@ -128,11 +252,12 @@ export default async function ImagePage({ params }: ImagePageProps) {
     )
 }
 
-// Generate static params for all images (for better performance)
+// Generate static params for the newest page of images (for better performance)
+// Older images are rendered on demand and cached after the first request
 export async function generateStaticParams() {
-    const images = await getAllImages()
+    const { images } = await getImages()
 
     return images.map((image) => ({
-        id: image.unsplashId,
+        id: image.publicId,
     }))
 }
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { imageStorageKey, preferredFormat, readVariant } from '@/lib/image-pipeline';
+import { createLogger } from '@/lib/logger';
+
+const log = createLogger('images');
+
+interface VariantRouteContext {
+  params: Promise<{ key: string; width: string }>;
+}
+
+// Self-hosted image variant, requested by the next/image loader (lib/image-loader.ts)
+// GET /img/<key>/<width> - AVIF or WebP depending on the Accept header
+export async function GET(request: NextRequest, { params }: VariantRouteContext) {
+  const { key, width } = await params;
+  const requestedWidth = Number(width);
+
+  if (!Number.isInteger(requestedWidth) || requestedWidth <= 0 || imageStorageKey(key) !== key) {
+    return new NextResponse('Not found', { status: 404 });
+  }
+
+  try {
+    const variant = await readVariant(key, requestedWidth, preferredFormat(request.headers.get('accept')));
+    if (!variant) {
+      return new NextResponse('Not found', { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(variant.body), {
+      headers: {
+        'Content-Type': variant.contentType,
+        'Content-Length': variant.body.length.toString(),
+        // Variants are written once per image, so they can be cached forever
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        'Vary': 'Accept',
+      },
+    });
+  } catch (error) {
+    log.error('Image variant read failed', { error, key, width: requestedWidth });
+    return new NextResponse('Failed to read image', { status: 500 });
+  }
+}
@@ -3,6 +3,8 @@ import { Geist, Geist_Mono } from "next/font/google";
 import { Suspense } from "react";
 import "./globals.css";
 import { SearchBar } from "@/features/search/components/SearchBar";
+import { ServiceWorkerRegistration } from "@/features/performance/components/ServiceWorkerRegistration";
+import { WebVitalsReporter } from "@/features/performance/components/WebVitalsReporter";
 import Link from "next/link";
 
 // NextFaster: Geist fonts with optimal loading (like original)
@@ -61,6 +63,12 @@ export default function RootLayout({
 
         {/* Main content */}
         <main>{children}</main>
+
+        {/* Offline gallery and durable prefetch cache (production only) */}
+        <ServiceWorkerRegistration />
+
+        {/* Real-user Core Web Vitals and navigation timings for /perf */}
+        <WebVitalsReporter />
       </body>
     </html>
   );
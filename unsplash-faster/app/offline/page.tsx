@@ -0,0 +1,29 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+
+export const metadata: Metadata = {
+  title: 'Offline - UnsplashFaster',
+}
+
+// Precached by public/sw.js and served for pages it has no copy of while offline
+// Fully static - nothing to fetch when it is shown
+export default function OfflinePage() {
+  return (
+    <div className="max-w-xl mx-auto px-4 py-24 text-center">
+      <h1 className="text-2xl font-bold text-gray-900 mb-4">You&apos;re offline</h1>
+      <p className="text-gray-600 mb-8">
+        This page hasn&apos;t been saved for offline use. The gallery and any image you&apos;ve
+        already opened are still available.
+      </p>
+      {/* Offline the client navigation fails and Next.js retries it as a full page load,
+          which the service worker answers from its page cache */}
+      <Link
+        href="/"
+        prefetch={false}
+        className="inline-block px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+      >
+        Back to the gallery
+      </Link>
+    </div>
+  )
+}
@@ -1,7 +1,13 @@
 import { Suspense } from 'react'
-import { getAllImages, getCategoriesWithCounts, getImageCount } from '@/lib/queries'
+import Link from 'next/link'
+import { getImages, getCategoriesWithCounts, getImageCount } from '@/lib/queries'
 import { ImageGrid } from '@/features/gallery/components/ImageGrid'
 import { CategorySidebar } from '@/features/gallery/components/CategorySidebar'
+import { SpeculationRules } from '@/features/performance/components/SpeculationRules'
+import { GRID_SPECULATION_TARGETS } from '@/features/performance/lib/speculation'
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('gallery')
 
 function LoadingGrid() {
   return (
@@ -27,24 +33,23 @@ function LoadingSidebar() {
 }
 
 async function Gallery({ categorySlug }: { categorySlug?: string }) {
-  console.log('🎯 Gallery component: Starting to fetch images...')
-
   try {
-    const images = await getAllImages()
-    console.log(`🎯 Gallery component: Successfully got ${images.length} total images`)
-
-    // Filter by category if specified
-    let filteredImages = images
-    if (categorySlug) {
-      filteredImages = images.filter(img => img.category.slug === categorySlug)
-      console.log(`🎯 Gallery component: Filtered to ${filteredImages.length} images for category: ${categorySlug}`)
-    }
-
-    console.log('🎯 First image:', filteredImages[0]?.title || 'No images found')
+    // Category filtering happens in SQL, later pages are loaded by ImageGrid on scroll
+    const { images, nextCursor } = await getImages(categorySlug)
+    log.debug('Rendering gallery', { category: categorySlug ?? 'all', count: images.length })
 
-    return <ImageGrid images={filteredImages} />
+    return (
+      <SpeculationRules route="gallery" targets={GRID_SPECULATION_TARGETS}>
+        <ImageGrid
+          key={categorySlug || 'all'}
+          images={images}
+          nextCursor={nextCursor}
+          categorySlug={categorySlug}
+        />
+      </SpeculationRules>
+    )
   } catch (error) {
-    console.error('🎯 Gallery component: Error fetching images:', error)
+    log.error('Failed to load gallery images', { error, category: categorySlug })
     return <div className="text-center py-12 text-red-500">Error loading images: {error instanceof Error ? error.message : 'Unknown error'}</div>
   }
 }
@@ -58,7 +63,7 @@ async function Sidebar() {
 
     return <CategorySidebar categories={categories} totalImages={totalImages} />
   } catch (error) {
-    console.error('🎯 Sidebar component: Error fetching categories:', error)
+    log.error('Failed to load categories', { error })
     return <div className="w-64 bg-white border-r border-gray-200 p-6 text-red-500 text-sm">Error loading categories</div>
   }
 }
@@ -88,6 +93,11 @@ export default function HomePage({ searchParams }: { searchParams: { category?:
               <p className="mt-1">📸 Images from Unsplash • ⚡ Built with Next.js 15</p>
               <div className="mt-2 text-xs text-gray-400">
                 <p>✅ PPR • ✅ CSS Inlining • ✅ React Compiler • ✅ Smart Prefetching</p>
+                <p className="mt-1">
+                  <Link href="/perf" prefetch={false} className="underline hover:text-gray-600">
+                    See the real-user numbers
+                  </Link>
+                </p>
               </div>
             </div>
           </div>
@@ -0,0 +1,215 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { getWebVitalsReport, type VitalDailyRow, type VitalSummaryRow, type WebVitalsReport } from '@/lib/web-vitals'
+import type { VitalName } from '@/features/performance/lib/vitals-api'
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('vitals')
+
+export const metadata: Metadata = {
+  title: 'Performance - UnsplashFaster',
+  robots: { index: false },
+}
+
+// Always the latest samples - never prerendered
+export const dynamic = 'force-dynamic'
+
+interface PerfPageProps {
+  searchParams: Promise<{ days?: string }>
+}
+
+const WINDOWS = [1, 7, 30]
+const DEFAULT_WINDOW = 7
+
+const METRICS: VitalName[] = ['LCP', 'INP', 'CLS', 'TTFB', 'NAV']
+
+// Core Web Vitals thresholds for good / poor at p75 (NAV has none)
+const THRESHOLDS: Partial<Record<string, [number, number]>> = {
+  LCP: [2500, 4000],
+  INP: [200, 500],
+  CLS: [0.1, 0.25],
+  TTFB: [800, 1800],
+}
+
+const CACHE_STATUS_LABELS: Record<string, string> = {
+  prerender: 'Speculation prerender',
+  prefetch: 'Speculation prefetch',
+  router: 'Router cache',
+  http: 'HTTP cache / service worker',
+  network: 'Network',
+}
+
+function formatValue(name: string, value: number) {
+  return name === 'CLS' ? value.toFixed(3) : `${Math.round(value)} ms`
+}
+
+function ratingClass(name: string, value: number) {
+  const thresholds = THRESHOLDS[name]
+  if (!thresholds) return 'text-gray-900'
+  if (value <= thresholds[0]) return 'text-green-700'
+  return value <= thresholds[1] ? 'text-amber-600' : 'text-red-600'
+}
+
+function groupBy<Row, Key>(rows: Row[], key: (row: Row) => Key) {
+  const groups = new Map<Key, Row[]>()
+  for (const row of rows) {
+    groups.set(key(row), [...(groups.get(key(row)) ?? []), row])
+  }
+  return groups
+}
+
+function SummaryTable({ rows }: { rows: VitalSummaryRow[] }) {
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b border-gray-200 text-left text-gray-500">
+          <th className="py-2 pr-4 font-medium">Metric</th>
+          <th className="py-2 pr-4 font-medium">Link</th>
+          <th className="py-2 pr-4 font-medium text-right">Samples</th>
+          <th className="py-2 pr-4 font-medium text-right">p50</th>
+          <th className="py-2 pr-4 font-medium text-right">p75</th>
+          <th className="py-2 font-medium text-right">p95</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr key={`${row.name}-${row.prefetched}`} className="border-b border-gray-100 text-gray-900 tabular-nums">
+            <td className="py-2 pr-4 font-mono">{row.name}</td>
+            <td className="py-2 pr-4">{row.prefetched ? 'Prefetched' : 'Not prefetched'}</td>
+            <td className="py-2 pr-4 text-right">{row.samples}</td>
+            <td className="py-2 pr-4 text-right">{formatValue(row.name, row.p50)}</td>
+            <td className={`py-2 pr-4 text-right font-medium ${ratingClass(row.name, row.p75)}`}>
+              {formatValue(row.name, row.p75)}
+            </td>
+            <td className="py-2 text-right">{formatValue(row.name, row.p95)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+// p75 per day, one row per day and prefetch status
+function DailyTable({ rows }: { rows: VitalDailyRow[] }) {
+  const days = groupBy(rows, row => `${row.day}|${row.prefetched}`)
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b border-gray-200 text-left text-gray-500">
+          <th className="py-2 pr-4 font-medium">Day</th>
+          <th className="py-2 pr-4 font-medium">Link</th>
+          {METRICS.map(name => (
+            <th key={name} className="py-2 pr-4 font-medium text-right">{name} p75</th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {Array.from(days, ([key, dayRows]) => (
+          <tr key={key} className="border-b border-gray-100 text-gray-900 tabular-nums">
+            <td className="py-2 pr-4">{dayRows[0].day}</td>
+            <td className="py-2 pr-4">{dayRows[0].prefetched ? 'Prefetched' : 'Not prefetched'}</td>
+            {METRICS.map(name => {
+              const row = dayRows.find(dayRow => dayRow.name === name)
+              return (
+                <td key={name} className={`py-2 pr-4 text-right ${row ? ratingClass(name, row.p75) : 'text-gray-400'}`}>
+                  {row ? <>{formatValue(name, row.p75)} <span className="text-xs text-gray-400">({row.samples})</span></> : '–'}
+                </td>
+              )
+            })}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+export default async function PerfPage({ searchParams }: PerfPageProps) {
+  const { days: daysParam } = await searchParams
+  const days = WINDOWS.includes(Number(daysParam)) ? Number(daysParam) : DEFAULT_WINDOW
+
+  let report: WebVitalsReport
+  try {
+    report = await getWebVitalsReport(days)
+  } catch (error) {
+    log.error('Failed to load web vitals report', { error, days })
+    return <div className="text-center py-12 text-red-500">Error loading the performance report: {error instanceof Error ? error.message : 'Unknown error'}</div>
+  }
+
+  const summaryByRoute = groupBy(report.summary, row => row.route)
+  const dailyByRoute = groupBy(report.daily, row => row.route)
+
+  return (
+    <main className="min-h-screen bg-white p-6">
+      <div className="flex items-start justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Performance</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Real-user Core Web Vitals and client-side navigation times (NAV) from the last {days === 1 ? 'day' : `${days} days`}.
+            p75 is colored against the Core Web Vitals thresholds.
+          </p>
+        </div>
+        <nav className="flex gap-2 text-sm">
+          {WINDOWS.map(option => (
+            <Link
+              key={option}
+              href={`/perf?days=${option}`}
+              className={`px-3 py-1.5 rounded transition-colors ${option === days ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+            >
+              {option}d
+            </Link>
+          ))}
+        </nav>
+      </div>
+
+      {report.summary.length === 0 ? (
+        <p className="text-gray-500">No samples yet - browse a production build of the site and come back.</p>
+      ) : (
+        <div className="space-y-10">
+          {Array.from(summaryByRoute, ([route, rows]) => (
+            <section key={route}>
+              <h2 className="text-lg font-semibold text-gray-900 mb-2 font-mono">{route}</h2>
+              <SummaryTable rows={rows} />
+              <h3 className="text-sm font-medium text-gray-500 mt-4 mb-1">Over time</h3>
+              <DailyTable rows={dailyByRoute.get(route) ?? []} />
+            </section>
+          ))}
+
+          <section>
+            <h2 className="text-lg font-semibold text-gray-900 mb-1">Where navigations were served from</h2>
+            <p className="text-sm text-gray-500 mb-2">
+              NAV is a client-side navigation from OptimizedLink&apos;s mousedown to the new route&apos;s first paint;
+              TTFB is a full page load, which speculation rules can serve from a prefetch or prerender.
+            </p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 text-left text-gray-500">
+                  <th className="py-2 pr-4 font-medium">Route</th>
+                  <th className="py-2 pr-4 font-medium">Metric</th>
+                  <th className="py-2 pr-4 font-medium">Served from</th>
+                  <th className="py-2 pr-4 font-medium text-right">Samples</th>
+                  <th className="py-2 pr-4 font-medium text-right">p50</th>
+                  <th className="py-2 pr-4 font-medium text-right">p75</th>
+                  <th className="py-2 font-medium text-right">p95</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.navigationCache.map(row => (
+                  <tr key={`${row.route}-${row.name}-${row.cacheStatus}`} className="border-b border-gray-100 text-gray-900 tabular-nums">
+                    <td className="py-2 pr-4 font-mono">{row.route}</td>
+                    <td className="py-2 pr-4 font-mono">{row.name}</td>
+                    <td className="py-2 pr-4">{row.cacheStatus ? CACHE_STATUS_LABELS[row.cacheStatus] ?? row.cacheStatus : 'Unknown'}</td>
+                    <td className="py-2 pr-4 text-right">{row.samples}</td>
+                    <td className="py-2 pr-4 text-right">{formatValue(row.name, row.p50)}</td>
+                    <td className="py-2 pr-4 text-right">{formatValue(row.name, row.p75)}</td>
+                    <td className="py-2 text-right">{formatValue(row.name, row.p95)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        </div>
+      )}
+    </main>
+  )
+}
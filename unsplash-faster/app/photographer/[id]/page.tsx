@@ -0,0 +1,70 @@
+import { Suspense } from 'react'
+import { notFound } from 'next/navigation'
+import { getImagesByPhotographer, getPhotographer } from '@/lib/queries'
+import { ImageGrid } from '@/features/gallery/components/ImageGrid'
+import { SpeculationRules } from '@/features/performance/components/SpeculationRules'
+import { GRID_SPECULATION_TARGETS } from '@/features/performance/lib/speculation'
+
+interface PhotographerPageProps {
+  params: Promise<{ id: string }>
+}
+
+function LoadingPhotographer() {
+  return (
+    <div>
+      <div className="px-6 py-6 border-b border-gray-200 animate-pulse">
+        <div className="h-8 bg-gray-200 rounded w-1/3 mb-3"></div>
+        <div className="h-4 bg-gray-200 rounded w-1/4"></div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 p-6">
+        {Array.from({ length: 9 }).map((_, i) => (
+          <div key={i} className="aspect-[4/3] bg-gray-200 rounded-lg animate-pulse" />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+async function PhotographerProfile({ id }: { id: string }) {
+  const photographer = await getPhotographer(id)
+
+  if (!photographer) {
+    notFound()
+  }
+
+  const { images, nextCursor } = await getImagesByPhotographer(id)
+
+  return (
+    <div>
+      <div className="px-6 py-6 border-b border-gray-200">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">{photographer.name}</h1>
+        <dl className="flex gap-8 text-sm">
+          <div>
+            <dt className="font-medium text-gray-500">Images</dt>
+            <dd className="text-gray-900">{photographer.imageCount}</dd>
+          </div>
+          <div>
+            <dt className="font-medium text-gray-500">Total likes</dt>
+            <dd className="text-gray-900">{photographer.totalLikes.toLocaleString()}</dd>
+          </div>
+        </dl>
+      </div>
+      <SpeculationRules route="photographer" targets={GRID_SPECULATION_TARGETS}>
+        <ImageGrid key={id} images={images} nextCursor={nextCursor} photographerId={id} />
+      </SpeculationRules>
+    </div>
+  )
+}
+
+export default async function PhotographerPage({ params }: PhotographerPageProps) {
+  const { id } = await params
+
+  return (
+    <main className="min-h-screen bg-white">
+      {/* Photographer profile with NextFaster Suspense boundaries */}
+      <Suspense fallback={<LoadingPhotographer />}>
+        <PhotographerProfile id={decodeURIComponent(id)} />
+      </Suspense>
+    </main>
+  )
+}
@@ -1,11 +1,21 @@
 import { Suspense } from 'react'
 import Link from 'next/link'
-import { searchImages } from '@/lib/queries'
+import { getSearchFacets, searchImages } from '@/lib/queries'
 import { ImageGrid } from '@/features/gallery/components/ImageGrid'
 import { SearchBar } from '@/features/search/components/SearchBar'
+import { SearchFacets } from '@/features/search/components/SearchFacets'
+import {
+  buildSearchHref,
+  hasSearchFilters,
+  parseSearchFilters,
+  type SearchFilters,
+} from '@/features/search/lib/filters'
+import { OptimizedLink } from '@/components/custom/OptimizedLink'
+import { SpeculationRules } from '@/features/performance/components/SpeculationRules'
+import { GRID_SPECULATION_TARGETS } from '@/features/performance/lib/speculation'
 
 interface SearchPageProps {
-  searchParams: Promise<{ q?: string }>
+  searchParams: Promise<Record<string, string | string[] | undefined>>
 }
 
 function LoadingResults() {
@@ -18,7 +28,14 @@ function LoadingResults() {
   )
 }
 
-async function SearchResults({ query }: { query: string }) {
+async function Facets({ query, filters }: { query: string; filters: SearchFilters }) {
+  if (!query || query.trim().length === 0) return null
+
+  const facets = await getSearchFacets(query, filters)
+  return <SearchFacets query={query} filters={filters} facets={facets} />
+}
+
+async function SearchResults({ query, page, filters }: { query: string; page: number; filters: SearchFilters }) {
   if (!query || query.trim().length === 0) {
     return (
       <div className="text-center py-12">
@@ -27,47 +44,76 @@ async function SearchResults({ query }: { query: string }) {
     )
   }
 
-  const results = await searchImages(query)
+  const { results, hasMore } = await searchImages(query, page, filters)
 
   if (results.length === 0) {
     return (
       <div className="text-center py-12">
         <h2 className="text-2xl font-semibold text-gray-700 mb-2">No results found</h2>
-        <p className="text-gray-500 mb-4">Try searching for something else</p>
-        <Link
-          href="/"
-          className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-        >
-          ← Browse all images
-        </Link>
+        <p className="text-gray-500 mb-4">
+          {hasSearchFilters(filters) ? 'Try removing some filters' : 'Try searching for something else'}
+        </p>
+        {hasSearchFilters(filters) ? (
+          <Link
+            href={buildSearchHref(query, {})}
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Clear filters
+          </Link>
+        ) : (
+          <Link
+            href="/"
+            className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            ← Browse all images
+          </Link>
+        )}
       </div>
     )
   }
 
-  // Convert Image[] to ImageWithCategory[] for consistency
-  const imagesWithCategory = results.map(image => ({
-    ...image,
-    category: {
-      id: 0,
-      name: 'Search Result',
-      slug: 'search'
-    }
-  }))
-
   return (
     <div>
       <div className="px-6 py-4 border-b border-gray-200">
         <p className="text-sm text-gray-600">
-          Found <strong>{results.length}</strong> result{results.length !== 1 ? 's' : ''} for &quot;<strong>{query}</strong>&quot;
+          {page > 1 ? <>Page <strong>{page}</strong>: </> : 'Found '}
+          <strong>{results.length}</strong> result{results.length !== 1 ? 's' : ''} for &quot;<strong>{query}</strong>&quot;
         </p>
       </div>
-      <ImageGrid images={imagesWithCategory} />
+      <SpeculationRules route="search" targets={GRID_SPECULATION_TARGETS}>
+        <ImageGrid images={results} />
+      </SpeculationRules>
+
+      {/* Pagination - next page is prefetched as soon as it scrolls into view */}
+      {(page > 1 || hasMore) && (
+        <nav className="flex justify-between px-6 pb-6">
+          {page > 1 ? (
+            <OptimizedLink
+              href={buildSearchHref(query, filters, page - 1)}
+              className="px-4 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              ← Previous
+            </OptimizedLink>
+          ) : <span />}
+          {hasMore && (
+            <OptimizedLink
+              href={buildSearchHref(query, filters, page + 1)}
+              className="px-4 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Next →
+            </OptimizedLink>
+          )}
+        </nav>
+      )}
     </div>
   )
 }
 
 export default async function SearchPage({ searchParams }: SearchPageProps) {
-  const { q: query = '' } = await searchParams
+  const params = await searchParams
+  const query = typeof params.q === 'string' ? params.q : ''
+  const page = Math.max(1, Number.parseInt(typeof params.page === 'string' ? params.page : '1', 10) || 1)
+  const filters = parseSearchFilters(params)
 
   return (
     <main className="min-h-screen bg-white">
@@ -86,10 +132,19 @@ export default async function SearchPage({ searchParams }: SearchPageProps) {
         </div>
       </header>
 
-      {/* Search Results */}
-      <Suspense fallback={<LoadingResults />}>
-        <SearchResults query={query} />
-      </Suspense>
+      <div className="flex">
+        {/* Facet counts for each filter */}
+        <Suspense fallback={null}>
+          <Facets query={query} filters={filters} />
+        </Suspense>
+
+        {/* Search Results */}
+        <div className="flex-1 min-w-0">
+          <Suspense fallback={<LoadingResults />}>
+            <SearchResults query={query} page={page} filters={filters} />
+          </Suspense>
+        </div>
+      </div>
 
       {/* Footer */}
       <footer className="bg-gray-50 border-t border-gray-200 mt-12">
@@ -0,0 +1,83 @@
+import { Suspense } from 'react'
+import { notFound } from 'next/navigation'
+import { getImagesByTag, getTagBySlug, getTagsWithCounts } from '@/lib/queries'
+import { ImageGrid } from '@/features/gallery/components/ImageGrid'
+import { OptimizedLink } from '@/components/custom/OptimizedLink'
+import { SpeculationRules } from '@/features/performance/components/SpeculationRules'
+import { GRID_SPECULATION_TARGETS } from '@/features/performance/lib/speculation'
+
+interface TagPageProps {
+  params: Promise<{ slug: string }>
+}
+
+function LoadingGrid() {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 p-6">
+      {Array.from({ length: 9 }).map((_, i) => (
+        <div key={i} className="aspect-[4/3] bg-gray-200 rounded-lg animate-pulse" />
+      ))}
+    </div>
+  )
+}
+
+async function TagGallery({ slug }: { slug: string }) {
+  const tag = await getTagBySlug(slug)
+
+  if (!tag) {
+    notFound()
+  }
+
+  const { images, nextCursor } = await getImagesByTag(slug)
+
+  return (
+    <div>
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h1 className="text-2xl font-bold text-gray-900">#{tag.name}</h1>
+      </div>
+      <SpeculationRules route="tag" targets={GRID_SPECULATION_TARGETS}>
+        <ImageGrid key={slug} images={images} nextCursor={nextCursor} tagSlug={slug} />
+      </SpeculationRules>
+    </div>
+  )
+}
+
+async function PopularTags({ currentSlug }: { currentSlug: string }) {
+  const popularTags = await getTagsWithCounts(20)
+  const otherTags = popularTags.filter(tag => tag.slug !== currentSlug)
+
+  if (otherTags.length === 0) return null
+
+  return (
+    <nav className="px-6 py-4 flex flex-wrap gap-2">
+      {otherTags.map(tag => (
+        <OptimizedLink
+          key={tag.id}
+          href={`/tag/${tag.slug}`}
+          className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-full hover:bg-blue-50 hover:text-blue-700 transition-colors"
+        >
+          #{tag.name} <span className="text-gray-400">{tag.imageCount}</span>
+        </OptimizedLink>
+      ))}
+    </nav>
+  )
+}
+
+export default async function TagPage({ params }: TagPageProps) {
+  const { slug } = await params
+
+  return (
+    <main className="min-h-screen bg-white">
+      {/* Tagged images with NextFaster Suspense boundaries */}
+      <Suspense fallback={<LoadingGrid />}>
+        <TagGallery slug={slug} />
+      </Suspense>
+
+      {/* Other tags to explore */}
+      <div className="border-t border-gray-200">
+        <Suspense fallback={null}>
+          <PopularTags currentSlug={slug} />
+        </Suspense>
+      </div>
+    </main>
+  )
+}
@@ -3,6 +3,27 @@
 import NextLink from "next/link";
 import { useRouter } from "next/navigation";
 import { useEffect, useRef } from "react";
+import { createLogger } from "@/lib/logger";
+import {
+    PREFETCH_BATCH_MAX,
+    PREFETCH_BATCH_PATH,
+    PREFETCH_IMAGES_PATH,
+    type PrefetchBatchResponse,
+    type PrefetchImage,
+} from "@/features/performance/lib/prefetch-api";
+import {
+    defaultPrefetchPolicy,
+    prefetchLevelFor,
+    recordPrefetchUsage,
+    type PrefetchPolicy,
+    type PrefetchTrigger,
+} from "@/features/performance/lib/prefetch-policy";
+import { usePrefetchPolicy } from "@/features/performance/components/PrefetchPolicyProvider";
+import { useSpeculation } from "@/features/performance/components/SpeculationProvider";
+import { markNavigationStart } from "@/features/performance/lib/navigation-timing";
+
+// Silent in the browser unless NEXT_PUBLIC_LOG_LEVEL is set (e.g. "link=debug")
+const log = createLogger("link");
 
 interface OptimizedLinkProps {
     href: string;
@@ -14,48 +35,80 @@ interface OptimizedLinkProps {
 // Global caches (shared across all OptimizedLink instances)
 // seenImages tracks which images we've already prefetched
 // imageCache tracks which images we've already cached
+// prefetchedRoutes tracks which routes were handed to router.prefetch (for the budget)
+// These only last for the page - the metadata lookups and Image() preloads below also pass
+// through the service worker (public/sw.js), which keeps both across reloads
 const seenImages = new Set<string>();
-const imageCache = new Map<string, any[]>();
+const imageCache = new Map<string, PrefetchImage[]>();
+const prefetchedRoutes = new Set<string>();
 
-type PrefetchImage = {
-    srcset: string;
-    sizes: string;
-    src: string;
-    alt: string;
-    loading: string;
-};
+// Image() preloads allowed in flight at once - the rest queue so they don't
+// compete with the current page's own images for bandwidth
+const MAX_CONCURRENT_IMAGE_PRELOADS = 4;
+const imagePreloadQueue: PrefetchImage[] = [];
+let activeImagePreloads = 0;
 
-export function OptimizedLink({
-    href,
-    children,
-    className = "",
-    prefetch = true,
-}: OptimizedLinkProps) {
-    const linkRef = useRef<HTMLAnchorElement>(null);
-    const router = useRouter();
-    const prefetchTimeout = useRef<NodeJS.Timeout | null>(null);
+// Hrefs waiting for the next batch request, and lookups already on their way
+const BATCH_IDLE_TIMEOUT_MS = 100;
+const pendingHrefs = new Map<string, (images: PrefetchImage[]) => void>();
+const inflightHrefs = new Map<string, Promise<PrefetchImage[]>>();
+let batchScheduled = false;
 
-    // NextFaster's image prefetching function
-    function prefetchImage(image: PrefetchImage) {
-        if (image.loading === "lazy" || seenImages.has(image.srcset || image.src)) {
-            return;
-        }
+// The part of the Next router prefetching needs
+interface PrefetchRouter {
+    prefetch: (href: string) => void;
+}
+
+function imageKey(image: PrefetchImage) {
+    return image.srcset || image.src;
+}
+
+function prefetchRoute(router: PrefetchRouter, href: string) {
+    router.prefetch(href);
+    if (!prefetchedRoutes.has(href)) {
+        prefetchedRoutes.add(href);
+        recordPrefetchUsage(1);
+    }
+}
+
+// Whether an OptimizedLink on this page has already handed href to router.prefetch
+export function isRoutePrefetched(href: string) {
+    return prefetchedRoutes.has(href);
+}
+
+// Bytes the browser actually downloaded for a preloaded image (0 when cached or not exposed)
+function transferredBytes(img: HTMLImageElement) {
+    const entries = performance.getEntriesByName(img.currentSrc || img.src, "resource");
+    const entry = entries[entries.length - 1] as PerformanceResourceTiming | undefined;
+    return entry?.transferSize ?? 0;
+}
+
+function startImagePreloads() {
+    while (activeImagePreloads < MAX_CONCURRENT_IMAGE_PRELOADS && imagePreloadQueue.length > 0) {
+        const image = imagePreloadQueue.shift()!;
+        activeImagePreloads++;
 
         // Create image element and force browser to cache it
         const img = new Image();
         img.decoding = "async";
         img.fetchPriority = "low";
 
-        // Add to seen set BEFORE loading to prevent duplicates (use srcset if available)
-        seenImages.add(image.srcset || image.src);
+        const done = () => {
+            activeImagePreloads--;
+            startImagePreloads();
+        };
 
         // Add load handlers to confirm caching
         img.onload = () => {
-            console.log(`✅ NEXTFASTER: Successfully cached image ${image.src.substring(0, 50)}...`);
+            log.debug("Cached image", { src: image.src });
+            recordPrefetchUsage(1, transferredBytes(img));
+            done();
         };
 
         img.onerror = () => {
-            console.log(`❌ NEXTFASTER: Failed to cache image ${image.src.substring(0, 50)}...`);
+            log.warn("Failed to cache image", { src: image.src });
+            recordPrefetchUsage(1);
+            done();
         };
 
         // Order is important: sizes must be set before srcset, srcset must be set before src
@@ -63,45 +116,200 @@ export function OptimizedLink({
         if (image.srcset) img.srcset = image.srcset;
         if (image.src) img.src = image.src;
 
-        console.log(`🖼️ NEXTFASTER: Starting prefetch for FULL URL:`, image.src);
+        log.debug("Prefetching image", { src: image.src, queued: imagePreloadQueue.length });
     }
+}
 
-    // NextFaster's prefetchImages function using API route
-    async function prefetchImages(href: string) {
-        try {
-            console.log(`📡 NEXTFASTER: Fetching image metadata for ${href}`);
+// NextFaster's image prefetching function
+// urgent (hover) images jump the queue
+function prefetchImage(image: PrefetchImage, urgent = false) {
+    if (image.loading === "lazy") {
+        return;
+    }
 
-            // Skip certain routes like NextFaster does
-            if (!href.startsWith("/") || href === "/") {
-                console.log(`⚠️ NEXTFASTER: Skipping prefetch for route: ${href}`);
-                return [];
-            }
+    if (seenImages.has(imageKey(image))) {
+        // Still waiting for a slot - a hover moves it to the front
+        const queued = urgent ? imagePreloadQueue.findIndex(entry => imageKey(entry) === imageKey(image)) : -1;
+        if (queued > 0) {
+            imagePreloadQueue.unshift(...imagePreloadQueue.splice(queued, 1));
+        }
+        return;
+    }
+
+    // Add to seen set BEFORE loading to prevent duplicates (use srcset if available)
+    seenImages.add(imageKey(image));
 
-            const response = await fetch(`/api/prefetch-images${href}`, {
+    if (urgent) imagePreloadQueue.unshift(image);
+    else imagePreloadQueue.push(image);
+    startImagePreloads();
+}
+
+// NextFaster's prefetchImages function using API route
+// A single href keeps using the GET route, which the HTTP cache can answer
+async function fetchPrefetchImages(hrefs: string[]): Promise<Record<string, PrefetchImage[]>> {
+    recordPrefetchUsage(1);
+
+    try {
+        const response = hrefs.length === 1
+            ? await fetch(`${PREFETCH_IMAGES_PATH}${hrefs[0]}`, { priority: "low" })
+            : await fetch(PREFETCH_BATCH_PATH, {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ hrefs }),
                 priority: "low",
             });
 
-            // Only throw in dev (like NextFaster does)
-            if (!response.ok && process.env.NODE_ENV === "development") {
-                throw new Error("Failed to prefetch images");
-            }
-            if (!response.ok) {
-                console.error(`❌ NEXTFASTER: API returned ${response.status} for ${href}`);
-                return [];
-            }
+        if (!response.ok) {
+            log.warn("Prefetch API failed", { hrefs, status: response.status });
+            return {};
+        }
 
+        if (hrefs.length === 1) {
             const data = await response.json();
-            return data.images || [];
-        } catch (error) {
-            console.error('Failed to fetch prefetch data:', error);
-            return [];
+            return { [hrefs[0]]: data.images || [] };
         }
+
+        const data: PrefetchBatchResponse = await response.json();
+        return data.results || {};
+    } catch (error) {
+        log.error("Failed to fetch prefetch data", { hrefs, error });
+        return {};
+    }
+}
+
+// Sends every href collected since the last flush, split into batches the API accepts
+async function flushPendingHrefs() {
+    batchScheduled = false;
+    const pending = Array.from(pendingHrefs);
+    pendingHrefs.clear();
+
+    const batches: Array<typeof pending> = [];
+    for (let i = 0; i < pending.length; i += PREFETCH_BATCH_MAX) {
+        batches.push(pending.slice(i, i + PREFETCH_BATCH_MAX));
+    }
+
+    await Promise.all(batches.map(async (batch) => {
+        log.debug("Fetching image metadata", { hrefs: batch.length });
+        const results = await fetchPrefetchImages(batch.map(([href]) => href));
+        for (const [href, resolve] of batch) {
+            resolve(results[href] ?? []);
+        }
+    }));
+}
+
+// Links that become visible together (a grid scrolling into view) land in the same
+// idle window and share one request
+function scheduleFlush() {
+    if (batchScheduled) return;
+    batchScheduled = true;
+
+    if (typeof window.requestIdleCallback === "function") {
+        window.requestIdleCallback(() => void flushPendingHrefs(), { timeout: BATCH_IDLE_TIMEOUT_MS });
+    } else {
+        setTimeout(() => void flushPendingHrefs(), 0);
     }
+}
+
+function prefetchImages(href: string): Promise<PrefetchImage[]> {
+    // Skip certain routes like NextFaster does
+    if (!href.startsWith("/") || href === "/") {
+        log.debug("Skipping image prefetch", { href });
+        return Promise.resolve([]);
+    }
+
+    let images = inflightHrefs.get(href);
+    if (!images) {
+        images = new Promise<PrefetchImage[]>(resolve => {
+            pendingHrefs.set(href, resolve);
+            scheduleFlush();
+        });
+        inflightHrefs.set(href, images);
+        void images.then(() => inflightHrefs.delete(href));
+    }
+    return images;
+}
+
+interface PrefetchHrefOptions {
+    // usePrefetchPolicy() in components; defaultPrefetchPolicy otherwise
+    policy?: PrefetchPolicy;
+    trigger?: PrefetchTrigger;
+}
+
+/**
+ * Prefetch a route's JavaScript and its eager images, exactly as an
+ * OptimizedLink does once it has been in the viewport for 300ms -
+ * as far as the prefetch policy allows on this network.
+ * Exported so other navigation UI (e.g. search suggestions) shares the same caches
+ */
+export async function prefetchHref(
+    router: PrefetchRouter,
+    href: string,
+    { policy = defaultPrefetchPolicy, trigger = "viewport" }: PrefetchHrefOptions = {},
+) {
+    const level = prefetchLevelFor(policy, href, trigger);
+    if (level === "none") {
+        log.debug("Prefetch skipped by policy", { href, trigger });
+        return;
+    }
+
+    prefetchRoute(router, href);
+    if (level === "route") return;
+
+    // Simulate sleep like NextFaster
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    if (!imageCache.has(href)) {
+        const images = await prefetchImages(href);
+
+        // Another caller may have finished the same lookup first
+        if (imageCache.has(href)) return;
+
+        // after prefetching image, cache it
+        imageCache.set(href, images);
+        log.debug("Cached image metadata", { href, count: images.length });
+
+        // CRITICAL: Actually prefetch the images, not just metadata
+        images.forEach(image => {
+            prefetchImage(image);
+        });
+    }
+}
+
+// Left button, no modifier keys, same origin - anything else opens a tab or a download
+function isPlainLeftClick(e: React.MouseEvent, href: string) {
+    const url = new URL(href, window.location.href);
+    return (
+        url.origin === window.location.origin &&
+        e.button === 0 &&
+        !e.altKey &&
+        !e.ctrlKey &&
+        !e.metaKey &&
+        !e.shiftKey
+    );
+}
+
+export function OptimizedLink({
+    href,
+    children,
+    className = "",
+    prefetch = true,
+}: OptimizedLinkProps) {
+    const linkRef = useRef<HTMLAnchorElement>(null);
+    const router = useRouter();
+    const policy = usePrefetchPolicy();
+    const speculation = useSpeculation();
+    const prefetchTimeout = useRef<NodeJS.Timeout | null>(null);
 
     // NextFaster's exact Intersection Observer implementation
     useEffect(() => {
         if (prefetch === false) return;
 
+        // Speculation rules cover this link - the browser prefetches it
+        if (speculation.handles(href)) {
+            log.debug("Prefetch left to speculation rules", { href });
+            return;
+        }
+
         const linkElement = linkRef.current;
         if (!linkElement) return;
 
@@ -109,26 +317,9 @@ export function OptimizedLink({
             (entries) => {
                 const entry = entries[0];
                 if (entry.isIntersecting) {
-                    prefetchTimeout.current = setTimeout(async () => {
-                        console.log(`🔍 NEXTFASTER VIEWPORT: Prefetching route ${href}`);
-                        router.prefetch(href);
-
-                        // Simulate sleep like NextFaster
-                        await new Promise(resolve => setTimeout(resolve, 0));
-
-                        if (!imageCache.has(href)) {
-                            console.log(`📡 NEXTFASTER VIEWPORT: Fetching image metadata for ${href}`);
-                            void prefetchImages(href).then((images) => {
-                                // after prefetching image, cache it
-                                imageCache.set(href, images);
-                                console.log(`💾 NEXTFASTER: Cached ${images.length} image(s) metadata for ${href}`);
-
-                                // CRITICAL: Actually prefetch the images, not just metadata
-                                images.forEach(image => {
-                                    prefetchImage(image);
-                                });
-                            }, console.error);
-                        }
+                    prefetchTimeout.current = setTimeout(() => {
+                        log.debug("Prefetching route", { href, trigger: "viewport" });
+                        void prefetchHref(router, href, { policy }).catch((error) => log.error("Prefetch failed", { href, error }));
 
                         observer.unobserve(entry.target);
                     }, 300);
@@ -148,8 +339,57 @@ export function OptimizedLink({
                 clearTimeout(prefetchTimeout.current);
             }
         };
-    }, [href, prefetch, router]);
+    }, [href, prefetch, router, policy, speculation]);
+
 
+    const onMouseEnter = () => {
+        if (speculation.handles(href)) return;
+
+        const level = prefetchLevelFor(policy, href, "hover");
+        if (level === "none") return;
+
+        prefetchRoute(router, href);
+        const images = level === "route+images" ? imageCache.get(href) || [] : [];
+        log.debug("Prefetching route", { href, trigger: "mouseenter", cachedImages: images.length });
+        for (const image of images) {
+            prefetchImage(image, true);
+        }
+    };
+
+    const onMouseDown = (e: React.MouseEvent<HTMLAnchorElement>) => {
+        if (speculation.handles(href)) return;
+
+        if (isPlainLeftClick(e, href)) {
+            log.debug("Navigating on mousedown", { href });
+            e.preventDefault();
+            markNavigationStart(href, isRoutePrefetched(href));
+            router.push(href);
+        }
+    };
+
+    // Links covered by speculation rules are plain anchors: the browser follows them itself and
+    // activates its prerender, which a client-side navigation would bypass. Browsers without
+    // speculation rules still get a client-side navigation - on mousedown for pointer clicks, so the
+    // click only stops the browser following the link, and on click for keyboard activation (detail 0)
+    if (speculation.covers(href)) {
+        return (
+            <a
+                ref={linkRef}
+                href={href}
+                className={className}
+                onMouseEnter={onMouseEnter}
+                onMouseDown={onMouseDown}
+                onClick={(e) => {
+                    if (!speculation.handles(href) && isPlainLeftClick(e, href)) {
+                        e.preventDefault();
+                        if (e.detail === 0) router.push(href);
+                    }
+                }}
+            >
+                {children}
+            </a>
+        );
+    }
 
     return (
         <NextLink
@@ -157,30 +397,8 @@ export function OptimizedLink({
             href={href}
             prefetch={false} // We handle prefetching manually
             className={className}
-            onMouseEnter={() => {
-                console.log(`💁 NEXTFASTER MOUSEENTER: Prefetching ${href}`);
-                router.prefetch(href);
-                const images = imageCache.get(href) || [];
-                console.log(`🖼️ NEXTFASTER MOUSEENTER: Found ${images.length} cached images`);
-                for (const image of images) {
-                    prefetchImage(image);
-                }
-            }}
-            onMouseDown={(e) => {
-                const url = new URL(href, window.location.href);
-                if (
-                    url.origin === window.location.origin &&
-                    e.button === 0 &&
-                    !e.altKey &&
-                    !e.ctrlKey &&
-                    !e.metaKey &&
-                    !e.shiftKey
-                ) {
-                    console.log(`⚡ NEXTFASTER MOUSEDOWN: Immediate navigation to ${href}`);
-                    e.preventDefault();
-                    router.push(href);
-                }
-            }}
+            onMouseEnter={onMouseEnter}
+            onMouseDown={onMouseDown}
         >
             {children}
         </NextLink>
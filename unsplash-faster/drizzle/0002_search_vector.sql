@@ -0,0 +1,4 @@
+CREATE EXTENSION IF NOT EXISTS pg_trgm;--> statement-breakpoint
+ALTER TABLE "images" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce(title, '')), 'A') || setweight(to_tsvector('english', coalesce(description, '')), 'B')) STORED;--> statement-breakpoint
+CREATE INDEX "images_search_vector_idx" ON "images" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX "images_title_trgm_idx" ON "images" USING gin ("title" gin_trgm_ops);
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE "ingest_checkpoints" (
+	"category_slug" text PRIMARY KEY NOT NULL,
+	"last_page" integer DEFAULT 0 NOT NULL,
+	"ingested_count" integer DEFAULT 0 NOT NULL,
+	"completed_at" timestamp,
+	"updated_at" timestamp DEFAULT now()
+);
@@ -0,0 +1,3 @@
+ALTER TABLE "ingest_checkpoints" ADD COLUMN "search_term" text DEFAULT '' NOT NULL;--> statement-breakpoint
+ALTER TABLE "ingest_checkpoints" DROP CONSTRAINT "ingest_checkpoints_pkey";--> statement-breakpoint
+ALTER TABLE "ingest_checkpoints" ADD CONSTRAINT "ingest_checkpoints_category_slug_search_term_pk" PRIMARY KEY("category_slug","search_term");
@@ -0,0 +1,2 @@
+ALTER TABLE "images" ADD COLUMN "exif" jsonb;--> statement-breakpoint
+ALTER TABLE "images" ADD COLUMN "location" jsonb;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "images" ADD COLUMN "dominant_color" text;--> statement-breakpoint
+ALTER TABLE "images" ADD COLUMN "blur_hash" text;
\ No newline at end of file
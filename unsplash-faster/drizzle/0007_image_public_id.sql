@@ -0,0 +1,7 @@
+ALTER TABLE "images" ALTER COLUMN "unsplash_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "images" ADD COLUMN "public_id" text;--> statement-breakpoint
+UPDATE "images" SET "public_id" = "unsplash_id";--> statement-breakpoint
+-- Rows added by the old test endpoints kept a made-up "local-..." Unsplash id; it stays their public id only
+UPDATE "images" SET "unsplash_id" = NULL WHERE "unsplash_id" LIKE 'local-%';--> statement-breakpoint
+ALTER TABLE "images" ALTER COLUMN "public_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "images" ADD CONSTRAINT "images_public_id_unique" UNIQUE("public_id");
@@ -0,0 +1,15 @@
+ALTER TABLE "images" RENAME COLUMN "unsplash_user_id" TO "author_id";--> statement-breakpoint
+ALTER TABLE "images" RENAME COLUMN "unsplash_user_name" TO "author_name";--> statement-breakpoint
+ALTER TABLE "images" RENAME COLUMN "unsplash_likes" TO "likes";--> statement-breakpoint
+ALTER TABLE "images" ADD COLUMN "source" text;--> statement-breakpoint
+ALTER TABLE "images" ADD COLUMN "source_id" text;--> statement-breakpoint
+ALTER TABLE "images" ADD COLUMN "source_url" text;--> statement-breakpoint
+ALTER TABLE "images" ADD COLUMN "author_url" text;--> statement-breakpoint
+UPDATE "images" SET "source" = 'unsplash', "source_id" = "unsplash_id", "source_url" = 'https://unsplash.com/photos/' || "unsplash_id" WHERE "unsplash_id" IS NOT NULL;--> statement-breakpoint
+-- Everything else was added by hand or uploaded; its public id is the only identity it has
+UPDATE "images" SET "source" = 'upload', "source_id" = "public_id" WHERE "unsplash_id" IS NULL;--> statement-breakpoint
+ALTER TABLE "images" ALTER COLUMN "source" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "images" ALTER COLUMN "source_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "images" DROP CONSTRAINT "images_unsplash_id_unique";--> statement-breakpoint
+ALTER TABLE "images" DROP COLUMN "unsplash_id";--> statement-breakpoint
+ALTER TABLE "images" ADD CONSTRAINT "images_source_source_id_unique" UNIQUE("source","source_id");
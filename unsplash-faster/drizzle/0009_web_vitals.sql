@@ -0,0 +1,13 @@
+CREATE TABLE "web_vitals" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"value" double precision NOT NULL,
+	"rating" text,
+	"route" text NOT NULL,
+	"navigation_type" text NOT NULL,
+	"prefetched" boolean DEFAULT false NOT NULL,
+	"cache_status" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "web_vitals_created_at_idx" ON "web_vitals" USING btree ("created_at");
\ No newline at end of file
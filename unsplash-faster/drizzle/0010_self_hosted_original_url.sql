@@ -0,0 +1,3 @@
+-- Self-hosted originals were stored as /img/<key>, which has no route. /img/<key>/<width> serves
+-- the largest variant that isn't wider than the image (or the image at its own width)
+UPDATE "images" SET "original_url" = "original_url" || '/' || "width" WHERE "original_url" ~ '^/img/[A-Za-z0-9_-]+$' AND "width" IS NOT NULL;
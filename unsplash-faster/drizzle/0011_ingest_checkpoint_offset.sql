@@ -0,0 +1 @@
+ALTER TABLE "ingest_checkpoints" ADD COLUMN "page_offset" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -1,7 +1,13 @@
 'use client'
 
+import { useEffect, useRef, useState } from 'react'
 import Image from 'next/image'
 import { OptimizedLink } from '@/components/custom/OptimizedLink'
+import { Highlight } from '@/features/search/components/Highlight'
+import { GRID_EAGER_COUNT, gridImageProps } from '../lib/image-props'
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('gallery')
 
 interface ImageData {
   id: number
@@ -11,61 +17,135 @@ interface ImageData {
   originalUrl: string
   width: number
   height: number
-  unsplashId: string
-  unsplashUserName: string | null
-  unsplashLikes: number | null
+  publicId: string
+  authorName: string | null
+  likes: number | null
+  dominantColor: string | null
+  blurDataUrl: string | null
   category: {
     id: number
     name: string
     slug: string
   }
+  // Search results carry a highlighted description snippet
+  headline?: string | null
 }
 
 interface ImageGridProps {
   images: ImageData[]
+  // Passing nextCursor (even null) turns on infinite scroll: further pages
+  // are fetched from /api/images as the user nears the end of the grid
+  nextCursor?: string | null
+  categorySlug?: string
+  tagSlug?: string
+  photographerId?: string
+}
+
+interface ImagesPageResponse {
+  images: ImageData[]
+  nextCursor: string | null
 }
 
-export function ImageGrid({ images }: ImageGridProps) {
-  console.log('🖼️ ImageGrid: Received', images.length, 'images')
-  console.log('🖼️ First image data:', images[0] ? {
-    id: images[0].id,
-    title: images[0].title,
-    imageUrl: images[0].imageUrl,
-    unsplashId: images[0].unsplashId,
-    unsplashUserName: images[0].unsplashUserName,
-    unsplashLikes: images[0].unsplashLikes
-  } : 'No images')
+export function ImageGrid({ images, nextCursor, categorySlug, tagSlug, photographerId }: ImageGridProps) {
+  const infinite = nextCursor !== undefined
+  const [items, setItems] = useState(images)
+  const [cursor, setCursor] = useState(nextCursor ?? null)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const loadingRef = useRef(false)
+  const sentinelRef = useRef<HTMLDivElement>(null)
+
+  // Load the next page once the sentinel below the grid comes near the viewport
+  useEffect(() => {
+    if (!infinite || !cursor) return
+
+    const sentinel = sentinelRef.current
+    if (!sentinel) return
+
+    let cancelled = false
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (!entries[0].isIntersecting || loadingRef.current) return
+
+        loadingRef.current = true
+        setIsLoadingMore(true)
+
+        const params = new URLSearchParams({ cursor })
+        if (categorySlug) params.set('category', categorySlug)
+        if (tagSlug) params.set('tag', tagSlug)
+        if (photographerId) params.set('photographer', photographerId)
+
+        fetch(`/api/images?${params.toString()}`)
+          .then((response) => {
+            if (!response.ok) throw new Error(`Failed to load images: ${response.status}`)
+            return response.json() as Promise<ImagesPageResponse>
+          })
+          .then((page) => {
+            if (cancelled) return
+            setItems((previous) => [...previous, ...page.images])
+            setCursor(page.nextCursor)
+          })
+          .catch((error) => log.error('Failed to load next page', { error, cursor }))
+          .finally(() => {
+            loadingRef.current = false
+            setIsLoadingMore(false)
+          })
+      },
+      { rootMargin: '800px 0px' }
+    )
+
+    observer.observe(sentinel)
+
+    return () => {
+      cancelled = true
+      observer.disconnect()
+    }
+  }, [infinite, cursor, categorySlug, tagSlug, photographerId])
+
+  log.debug('Rendering grid', { count: items.length, first: items[0]?.publicId })
 
   return (
-    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 p-6">
-      {images.map((image, index) => (
-        <div key={image.id} className="group bg-white rounded-lg shadow-lg overflow-hidden hover:shadow-xl transition-shadow duration-300">
-          <OptimizedLink
-            href={`/image/${image.unsplashId}`}
-            className="block"
-          >
-            <div className="aspect-square relative overflow-hidden">
-              <Image
-                src={image.imageUrl}
-                alt={image.title}
-                fill
-                className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
-                sizes="(max-width: 640px) 100vw, (max-width: 768px) 50vw, (max-width: 1024px) 33vw, 25vw"
-                quality={80}
-                priority={index < 4}
-                loading={index < 8 ? "eager" : "lazy"}
-                fetchPriority={index === 0 ? "high" : index < 3 ? "high" : "auto"}
-                onLoad={() => console.log(`🖼️ Image ${index} loaded (${index < 8 ? 'EAGER' : 'LAZY'})`)}
-              />
-            </div>
-            <div className="p-3">
-              <h3 className="text-sm font-medium text-gray-900 truncate group-hover:text-blue-600 transition-colors">
-                {image.title}
-              </h3>
-            </div>
-          </OptimizedLink>
+    <>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 p-6">
+        {items.map((image, index) => (
+          <div key={image.id} className="group bg-white rounded-lg shadow-lg overflow-hidden hover:shadow-xl transition-shadow duration-300">
+            <OptimizedLink
+              href={`/image/${image.publicId}`}
+              className="block"
+            >
+              <div
+                className="aspect-square relative overflow-hidden bg-gray-100"
+                style={image.dominantColor ? { backgroundColor: image.dominantColor } : undefined}
+              >
+                <Image
+                  {...gridImageProps(image, index)}
+                  alt={image.title}
+                  fill
+                  placeholder={image.blurDataUrl ? 'blur' : 'empty'}
+                  blurDataURL={image.blurDataUrl ?? undefined}
+                  className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                  onLoad={() => log.debug('Image loaded', { index, publicId: image.publicId, loading: index < GRID_EAGER_COUNT ? 'eager' : 'lazy' })}
+                />
+              </div>
+              <div className="p-3">
+                <h3 className="text-sm font-medium text-gray-900 truncate group-hover:text-blue-600 transition-colors">
+                  {image.title}
+                </h3>
+                {image.headline && (
+                  <Highlight text={image.headline} className="mt-1 text-xs text-gray-500 line-clamp-2" />
+                )}
+              </div>
+            </OptimizedLink>
+          </div>
+        ))}
+      </div>
+
+      {infinite && cursor && (
+        <div ref={sentinelRef} className="flex justify-center py-8">
+          {isLoadingMore && (
+            <div className="animate-spin h-6 w-6 border-2 border-blue-500 border-t-transparent rounded-full" />
+          )}
         </div>
-      ))}
-    </div>
+      )}
+    </>
   )
 }
\ No newline at end of file
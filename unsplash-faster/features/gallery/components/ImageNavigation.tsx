@@ -0,0 +1,80 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { isRoutePrefetched, OptimizedLink } from '@/components/custom/OptimizedLink'
+import { markNavigationStart } from '@/features/performance/lib/navigation-timing'
+import { useSpeculation } from '@/features/performance/components/SpeculationProvider'
+import type { AdjacentImages } from '@/lib/queries'
+
+interface ImageNavigationProps {
+  adjacent: AdjacentImages
+}
+
+const imageHref = (publicId: string) => `/image/${publicId}`
+
+// Typing in a field must not flip through images
+function isEditableTarget(target: EventTarget | null) {
+  return target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+}
+
+export function ImageNavigation({ adjacent }: ImageNavigationProps) {
+  const router = useRouter()
+  const speculation = useSpeculation()
+  const { previous, next } = adjacent
+
+  // Left/right arrow shortcuts - both neighbours are already prefetched by their OptimizedLinks,
+  // or prerendered by NEIGHBOUR_SPECULATION, which only a document navigation can use
+  useEffect(() => {
+    const navigate = (href: string) => {
+      if (speculation.prerendersImmediately(href)) {
+        window.location.assign(href)
+        return
+      }
+
+      markNavigationStart(href, isRoutePrefetched(href))
+      router.push(href)
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.altKey || e.ctrlKey || e.metaKey || e.shiftKey || isEditableTarget(e.target)) return
+
+      if (e.key === 'ArrowLeft' && previous) {
+        navigate(imageHref(previous.publicId))
+      } else if (e.key === 'ArrowRight' && next) {
+        navigate(imageHref(next.publicId))
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [previous, next, router, speculation])
+
+  return (
+    <nav className="flex justify-between items-center gap-4" aria-label="Image navigation">
+      {previous ? (
+        <OptimizedLink
+          href={imageHref(previous.publicId)}
+          className="inline-flex items-center min-w-0 text-sm text-gray-600 hover:text-gray-900 transition-colors"
+        >
+          <svg className="w-5 h-5 mr-1 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+          <span className="truncate">{previous.title}</span>
+        </OptimizedLink>
+      ) : <span />}
+      {next && (
+        <OptimizedLink
+          href={imageHref(next.publicId)}
+          className="inline-flex items-center min-w-0 text-sm text-gray-600 hover:text-gray-900 transition-colors"
+        >
+          <span className="truncate">{next.title}</span>
+          <svg className="w-5 h-5 ml-1 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+        </OptimizedLink>
+      )}
+    </nav>
+  )
+}
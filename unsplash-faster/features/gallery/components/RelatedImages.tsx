@@ -0,0 +1,47 @@
+import Image from 'next/image'
+import { OptimizedLink } from '@/components/custom/OptimizedLink'
+import type { ImageWithCategory } from '@/lib/queries'
+
+interface RelatedImagesProps {
+  images: ImageWithCategory[]
+}
+
+// "More like this" strip under the image detail
+export function RelatedImages({ images }: RelatedImagesProps) {
+  if (images.length === 0) return null
+
+  return (
+    <section className="mt-12 border-t pt-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">More like this</h2>
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {images.map((image) => (
+          <OptimizedLink
+            key={image.id}
+            href={`/image/${image.publicId}`}
+            className="group block w-48 shrink-0"
+          >
+            <div
+              className="aspect-square relative overflow-hidden rounded-lg bg-gray-100"
+              style={image.dominantColor ? { backgroundColor: image.dominantColor } : undefined}
+            >
+              <Image
+                src={image.imageUrl}
+                alt={image.title}
+                fill
+                placeholder={image.blurDataUrl ? 'blur' : 'empty'}
+                blurDataURL={image.blurDataUrl ?? undefined}
+                className="object-cover group-hover:scale-105 transition-transform duration-300"
+                sizes="192px"
+                quality={75}
+                loading="lazy"
+              />
+            </div>
+            <p className="mt-2 text-sm text-gray-700 truncate group-hover:text-blue-600 transition-colors">
+              {image.title}
+            </p>
+          </OptimizedLink>
+        ))}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,37 @@
+import type { ImageProps } from 'next/image';
+
+/**
+ * next/image props for the gallery's two image layouts
+ * The prefetch-images resolver builds its srcset/sizes from the same props, so a prefetched
+ * image is byte-for-byte the URL the page later asks for - keep layout changes in here
+ */
+
+// alt is left to the caller so it stays visible to the a11y lint rule
+interface PropsImage {
+  imageUrl: string;
+}
+
+// Grid tiles: priority for the first row, eager for the first two rows, lazy below the fold
+export const GRID_PRIORITY_COUNT = 4;
+export const GRID_EAGER_COUNT = 8;
+
+export function gridImageProps(image: PropsImage, index: number) {
+  return {
+    src: image.imageUrl,
+    sizes: '(max-width: 640px) 100vw, (max-width: 768px) 50vw, (max-width: 1024px) 33vw, 25vw',
+    quality: 80,
+    priority: index < GRID_PRIORITY_COUNT,
+    loading: index < GRID_EAGER_COUNT ? 'eager' : 'lazy',
+    fetchPriority: index < 3 ? 'high' : 'auto',
+  } satisfies Partial<ImageProps>;
+}
+
+// The large image on /image/[id]
+export function detailImageProps(image: PropsImage) {
+  return {
+    src: image.imageUrl,
+    sizes: '(max-width: 768px) 100vw, 50vw',
+    quality: 90,
+    priority: true,
+  } satisfies Partial<ImageProps>;
+}
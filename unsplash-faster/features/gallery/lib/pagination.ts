@@ -0,0 +1,45 @@
+/**
+ * Keyset pagination helpers for the gallery
+ * A cursor points at the last row of a page as (createdAt, id), encoded
+ * as an opaque base64url string so clients never depend on its shape.
+ * createdAt is kept as Postgres timestamp text - a JS Date would drop the
+ * microseconds and skip rows created within the same millisecond
+ */
+
+export const DEFAULT_PAGE_SIZE = 24;
+export const MAX_PAGE_SIZE = 60;
+
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(\.\d{1,6})?$/;
+
+export interface ImageCursor {
+  createdAt: string;
+  id: number;
+}
+
+export function encodeCursor(cursor: ImageCursor): string {
+  return Buffer.from(`${cursor.createdAt}|${cursor.id}`).toString('base64url');
+}
+
+export function decodeCursor(value: string | null | undefined): ImageCursor | null {
+  if (!value) return null;
+
+  const [createdAt, id] = Buffer.from(value, 'base64url').toString('utf8').split('|');
+  const numericId = Number(id);
+
+  if (!TIMESTAMP_PATTERN.test(createdAt ?? '') || !Number.isInteger(numericId)) {
+    return null;
+  }
+
+  return { createdAt, id: numericId };
+}
+
+// Cache keys use the decoded cursor, so only well-formed cursors ever get an entry
+export function cursorKey(cursor: ImageCursor | null | undefined): string {
+  return cursor ? encodeCursor(cursor) : 'first';
+}
+
+export function clampPageSize(value: string | number | null | undefined): number {
+  const size = Number(value);
+  if (!Number.isInteger(size) || size <= 0) return DEFAULT_PAGE_SIZE;
+  return Math.min(size, MAX_PAGE_SIZE);
+}
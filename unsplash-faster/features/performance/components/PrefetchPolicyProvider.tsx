@@ -0,0 +1,24 @@
+'use client'
+
+import { createContext, useContext } from 'react'
+import { defaultPrefetchPolicy, type PrefetchPolicy } from '../lib/prefetch-policy'
+
+const PrefetchPolicyContext = createContext<PrefetchPolicy>(defaultPrefetchPolicy)
+
+interface PrefetchPolicyProviderProps {
+  // Build one with createPrefetchPolicy({ budget, decide }) - keep it stable (module scope or useMemo)
+  policy: PrefetchPolicy
+  children: React.ReactNode
+}
+
+/**
+ * Overrides the prefetch policy for every OptimizedLink below it
+ * Without a provider links use defaultPrefetchPolicy
+ */
+export function PrefetchPolicyProvider({ policy, children }: PrefetchPolicyProviderProps) {
+  return <PrefetchPolicyContext.Provider value={policy}>{children}</PrefetchPolicyContext.Provider>
+}
+
+export function usePrefetchPolicy(): PrefetchPolicy {
+  return useContext(PrefetchPolicyContext)
+}
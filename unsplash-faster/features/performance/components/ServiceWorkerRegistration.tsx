@@ -0,0 +1,43 @@
+'use client'
+
+import { useEffect } from 'react'
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('prefetch')
+
+export const SERVICE_WORKER_URL = '/sw.js'
+
+/**
+ * Registers public/sw.js (offline pages and a durable prefetch cache)
+ * Production only - in development it would serve stale chunks over HMR, so any worker
+ * left over from a production build on the same origin is removed instead
+ */
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return
+
+    if (process.env.NODE_ENV !== 'production') {
+      void navigator.serviceWorker.getRegistrations().then((registrations) => {
+        for (const registration of registrations) void registration.unregister()
+      })
+      return
+    }
+
+    // After load so registering (and the precache it starts) doesn't compete with the page
+    const register = () => {
+      navigator.serviceWorker
+        .register(SERVICE_WORKER_URL, { scope: '/', updateViaCache: 'none' })
+        .then((registration) => log.debug('Service worker registered', { scope: registration.scope }))
+        .catch((error) => log.warn('Service worker registration failed', { error }))
+    }
+
+    if (document.readyState === 'complete') {
+      register()
+      return
+    }
+    window.addEventListener('load', register, { once: true })
+    return () => window.removeEventListener('load', register)
+  }, [])
+
+  return null
+}
@@ -0,0 +1,57 @@
+'use client'
+
+import { createContext, useContext, useMemo } from 'react'
+import {
+  speculationCovers,
+  speculationRulesSupported,
+  type SpeculationEagernessOptions,
+  type SpeculationTargets,
+} from '../lib/speculation'
+
+interface Speculation {
+  // True when rules cover this href - the same on the server and the client, so safe during render
+  covers: (href: string) => boolean
+  // True when the browser prefetches/prerenders this href itself, so OptimizedLink stays out of it
+  handles: (href: string) => boolean
+  // True when the page is prerendered as soon as the rules load, so a document navigation
+  // (not a client-side one) is what picks it up
+  prerendersImmediately: (href: string) => boolean
+}
+
+const noSpeculation: Speculation = {
+  covers: () => false,
+  handles: () => false,
+  prerendersImmediately: () => false,
+}
+
+const SpeculationContext = createContext<Speculation>(noSpeculation)
+
+interface SpeculationProviderProps {
+  targets: SpeculationTargets
+  eagerness: SpeculationEagernessOptions
+  children: React.ReactNode
+}
+
+/**
+ * Tells the OptimizedLinks below it which hrefs SpeculationRules covers
+ * Rendered by SpeculationRules - not meant to be used on its own
+ */
+export function SpeculationProvider({ targets, eagerness, children }: SpeculationProviderProps) {
+  const speculation = useMemo<Speculation>(() => {
+    const covers = (href: string) => speculationCovers(targets, href)
+    // Checked when used (effects and handlers), never during render, so hydration matches
+    const handles = (href: string) => speculationRulesSupported() && covers(href)
+
+    return {
+      covers,
+      handles,
+      prerendersImmediately: (href) => eagerness.prerender === 'immediate' && handles(href),
+    }
+  }, [targets, eagerness])
+
+  return <SpeculationContext.Provider value={speculation}>{children}</SpeculationContext.Provider>
+}
+
+export function useSpeculation(): Speculation {
+  return useContext(SpeculationContext)
+}
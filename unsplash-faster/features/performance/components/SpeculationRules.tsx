@@ -0,0 +1,49 @@
+import { SpeculationProvider } from './SpeculationProvider'
+import {
+  buildSpeculationRules,
+  GRID_SPECULATION,
+  prefetchStrategyFor,
+  type PrefetchStrategy,
+  type SpeculationEagernessOptions,
+  type SpeculationRoute,
+  type SpeculationTargets,
+} from '../lib/speculation'
+
+interface SpeculationRulesProps {
+  route: SpeculationRoute
+  targets: SpeculationTargets
+  // GRID_SPECULATION by default; NEIGHBOUR_SPECULATION for a handful of likely next pages
+  eagerness?: SpeculationEagernessOptions
+  // Overrides PREFETCH_STRATEGY for this route
+  strategy?: PrefetchStrategy
+  // The links the rules cover - their OptimizedLinks hand prefetching over to the browser
+  children: React.ReactNode
+}
+
+/**
+ * Emits <script type="speculationrules"> for `targets` when the route uses the
+ * speculation-rules strategy, and renders `children` unchanged otherwise
+ *
+ *   <SpeculationRules route="gallery" targets={{ patterns: ['/image/*'] }}>
+ *     <ImageGrid images={images} />
+ *   </SpeculationRules>
+ */
+export function SpeculationRules({
+  route,
+  targets,
+  eagerness = GRID_SPECULATION,
+  strategy = prefetchStrategyFor(route),
+  children,
+}: SpeculationRulesProps) {
+  if (strategy !== 'speculation-rules') return <>{children}</>
+
+  // Escape < so an href can never close the script element
+  const rules = JSON.stringify(buildSpeculationRules(targets, eagerness)).replace(/</g, '\\u003c')
+
+  return (
+    <>
+      <script type="speculationrules" dangerouslySetInnerHTML={{ __html: rules }} />
+      <SpeculationProvider targets={targets} eagerness={eagerness}>{children}</SpeculationProvider>
+    </>
+  )
+}
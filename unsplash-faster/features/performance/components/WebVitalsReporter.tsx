@@ -0,0 +1,141 @@
+'use client'
+
+import { useEffect } from 'react'
+import { usePathname } from 'next/navigation'
+import { useReportWebVitals } from 'next/web-vitals'
+import { createLogger } from '@/lib/logger'
+import { completeNavigation, pageLoadDelivery } from '../lib/navigation-timing'
+import {
+  NAVIGATION_TYPES,
+  VITAL_NAMES,
+  VITAL_RATINGS,
+  VITALS_BATCH_MAX,
+  VITALS_PATH,
+  type VitalName,
+  type VitalNavigationType,
+  type VitalRating,
+  type VitalSample,
+  type VitalsRequest,
+} from '../lib/vitals-api'
+
+const log = createLogger('vitals')
+
+// The fields of a web-vitals Metric we send
+interface ReportedMetric {
+  name: string
+  value: number
+  rating?: string
+  navigationType?: string
+}
+
+// Share of page loads that report - NEXT_PUBLIC_VITALS_SAMPLE_RATE (0-1), all of them in
+// production and none in development by default
+function sampleRate() {
+  const configured = Number.parseFloat(process.env.NEXT_PUBLIC_VITALS_SAMPLE_RATE ?? '')
+  if (Number.isNaN(configured)) return process.env.NODE_ENV === 'production' ? 1 : 0
+  return Math.min(1, Math.max(0, configured))
+}
+
+// Decided once per page load, so a sampled view reports all of its metrics
+const sampled = typeof window !== 'undefined' && Math.random() < sampleRate()
+
+// The web vitals describe the page that was loaded, even when they are reported after
+// client-side navigations have moved on to other routes
+const landingPath = typeof window !== 'undefined' ? window.location.pathname : '/'
+
+const queue: VitalSample[] = []
+
+function flush() {
+  while (queue.length > 0) {
+    const body = JSON.stringify({ samples: queue.splice(0, VITALS_BATCH_MAX) } satisfies VitalsRequest)
+
+    // sendBeacon outlives the page; fetch with keepalive where it is missing or refuses the payload
+    const queued = navigator.sendBeacon?.(VITALS_PATH, new Blob([body], { type: 'application/json' }))
+    if (!queued) {
+      fetch(VITALS_PATH, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+        keepalive: true,
+      }).catch((error) => log.warn('Failed to send web vitals', { error }))
+    }
+  }
+}
+
+function enqueue(sample: VitalSample) {
+  log.debug('Recorded sample', { ...sample })
+  queue.push(sample)
+  if (queue.length >= VITALS_BATCH_MAX) flush()
+}
+
+function isVitalName(name: string): name is VitalName {
+  return (VITAL_NAMES as readonly string[]).includes(name)
+}
+
+function reportMetric(metric: ReportedMetric) {
+  // FCP and Next.js' own custom metrics aren't collected
+  if (!sampled || !isVitalName(metric.name) || metric.name === 'NAV') return
+
+  const navigationType = (NAVIGATION_TYPES as readonly string[]).includes(metric.navigationType ?? '')
+    ? metric.navigationType as VitalNavigationType
+    : 'navigate'
+  const rating = (VITAL_RATINGS as readonly string[]).includes(metric.rating ?? '')
+    ? metric.rating as VitalRating
+    : null
+
+  enqueue({
+    name: metric.name,
+    value: metric.value,
+    rating,
+    path: landingPath,
+    navigationType,
+    ...pageLoadDelivery(),
+  })
+}
+
+/**
+ * Sends LCP, INP, CLS and TTFB for the page load, and NAV for each client-side navigation
+ * started by an OptimizedLink, to POST /api/vitals - see the /perf report
+ */
+export function WebVitalsReporter() {
+  const pathname = usePathname()
+
+  useReportWebVitals(reportMetric)
+
+  // CLS and INP are final once the page is hidden - web-vitals reports them first
+  useEffect(() => {
+    if (!sampled) return
+
+    const onHidden = () => {
+      if (document.visibilityState === 'hidden') queueMicrotask(flush)
+    }
+    const onPageHide = () => queueMicrotask(flush)
+
+    document.addEventListener('visibilitychange', onHidden)
+    window.addEventListener('pagehide', onPageHide)
+    return () => {
+      document.removeEventListener('visibilitychange', onHidden)
+      window.removeEventListener('pagehide', onPageHide)
+    }
+  }, [])
+
+  // Measured after the new route's first paint
+  useEffect(() => {
+    if (!sampled) return
+
+    let timeout: ReturnType<typeof setTimeout> | undefined
+    const frame = requestAnimationFrame(() => {
+      timeout = setTimeout(() => {
+        const sample = completeNavigation(pathname)
+        if (sample) enqueue(sample)
+      }, 0)
+    })
+
+    return () => {
+      cancelAnimationFrame(frame)
+      clearTimeout(timeout)
+    }
+  }, [pathname])
+
+  return null
+}
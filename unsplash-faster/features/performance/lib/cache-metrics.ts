@@ -0,0 +1,185 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Hit/miss accounting for the unstable_cache wrapper, per key family (the first key part)
+ *
+ *   call    - every invocation of a cached query
+ *   deduped - answered by React cache() within the same render, never reached next/cache
+ *   hit     - served from the Next.js data cache
+ *   miss    - ran the query against Postgres
+ *
+ * Totals live for the lifetime of the server process (see /debug/cache); the lookups of a
+ * single route handler request are also collected for its Server-Timing header
+ */
+
+// Latency samples kept per family for percentiles
+const SAMPLE_LIMIT = 200;
+
+interface FamilyCounters {
+  calls: number;
+  hits: number;
+  misses: number;
+  lookupMs: number[];
+  queryMs: number[];
+  payloadBytes: number[];
+}
+
+export interface CacheFamilyMetrics {
+  family: string;
+  calls: number;
+  deduped: number;
+  hits: number;
+  misses: number;
+  hitRate: number | null;
+  // Time until next/cache answered, hit or miss
+  lookupAvgMs: number | null;
+  lookupP95Ms: number | null;
+  // Time spent in Postgres on misses
+  queryAvgMs: number | null;
+  // Size of the JSON stored for a miss
+  payloadAvgBytes: number | null;
+}
+
+interface RequestLookup {
+  family: string;
+  durationMs: number;
+  hit: boolean;
+}
+
+// Survives dev-server module reloads, so numbers don't reset on every edit
+const globalForMetrics = globalThis as typeof globalThis & {
+  cacheMetrics?: Map<string, FamilyCounters>;
+};
+const families = globalForMetrics.cacheMetrics ??= new Map<string, FamilyCounters>();
+
+// Per lookup: did the query callback run?
+const lookupStorage = new AsyncLocalStorage<{ missed: boolean }>();
+// Per route handler request: every lookup it made
+const requestStorage = new AsyncLocalStorage<RequestLookup[]>();
+
+function countersFor(family: string): FamilyCounters {
+  let counters = families.get(family);
+  if (!counters) {
+    counters = { calls: 0, hits: 0, misses: 0, lookupMs: [], queryMs: [], payloadBytes: [] };
+    families.set(family, counters);
+  }
+  return counters;
+}
+
+function addSample(samples: number[], value: number) {
+  samples.push(value);
+  if (samples.length > SAMPLE_LIMIT) samples.shift();
+}
+
+function average(samples: number[]) {
+  return samples.length === 0 ? null : samples.reduce((sum, value) => sum + value, 0) / samples.length;
+}
+
+function percentile(samples: number[], p: number) {
+  if (samples.length === 0) return null;
+  const sorted = [...samples].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+function payloadSize(value: unknown) {
+  try {
+    return Buffer.byteLength(JSON.stringify(value) ?? '');
+  } catch {
+    return 0;
+  }
+}
+
+export function recordCall(family: string) {
+  countersFor(family).calls++;
+}
+
+/**
+ * Runs one next/cache lookup and records whether the query had to run
+ */
+export async function measureLookup<T>(family: string, lookup: () => Promise<T>): Promise<T> {
+  const state = { missed: false };
+  const start = performance.now();
+  const result = await lookupStorage.run(state, lookup);
+  const durationMs = performance.now() - start;
+
+  const counters = countersFor(family);
+  if (state.missed) counters.misses++;
+  else counters.hits++;
+  addSample(counters.lookupMs, durationMs);
+
+  requestStorage.getStore()?.push({ family, durationMs, hit: !state.missed });
+  return result;
+}
+
+/**
+ * Wraps the query callback - it only runs on a miss (or a background refresh)
+ */
+export async function measureQuery<T>(family: string, query: () => Promise<T>): Promise<T> {
+  const lookup = lookupStorage.getStore();
+  if (lookup) lookup.missed = true;
+
+  const start = performance.now();
+  const result = await query();
+
+  const counters = countersFor(family);
+  addSample(counters.queryMs, performance.now() - start);
+  addSample(counters.payloadBytes, payloadSize(result));
+  return result;
+}
+
+export function getCacheMetrics(): CacheFamilyMetrics[] {
+  return Array.from(families, ([family, counters]) => {
+    const lookups = counters.hits + counters.misses;
+    return {
+      family,
+      calls: counters.calls,
+      deduped: Math.max(0, counters.calls - lookups),
+      hits: counters.hits,
+      misses: counters.misses,
+      hitRate: lookups === 0 ? null : counters.hits / lookups,
+      lookupAvgMs: average(counters.lookupMs),
+      lookupP95Ms: percentile(counters.lookupMs, 95),
+      queryAvgMs: average(counters.queryMs),
+      payloadAvgBytes: average(counters.payloadBytes),
+    };
+  }).sort((a, b) => b.calls - a.calls);
+}
+
+export function resetCacheMetrics() {
+  families.clear();
+}
+
+function serverTimingHeader(lookups: RequestLookup[]) {
+  const byFamily = new Map<string, { durationMs: number; hits: number; misses: number }>();
+  for (const lookup of lookups) {
+    const entry = byFamily.get(lookup.family) ?? { durationMs: 0, hits: 0, misses: 0 };
+    entry.durationMs += lookup.durationMs;
+    if (lookup.hit) entry.hits++;
+    else entry.misses++;
+    byFamily.set(lookup.family, entry);
+  }
+
+  return Array.from(byFamily, ([family, entry]) => {
+    const desc = [entry.hits && `${entry.hits} hit`, entry.misses && `${entry.misses} miss`].filter(Boolean).join(', ');
+    return `cache-${family};desc="${desc}";dur=${entry.durationMs.toFixed(1)}`;
+  }).join(', ');
+}
+
+/**
+ * Route handler wrapper adding a Server-Timing entry per cache family the request used
+ * (visible in the browser's network panel). Pages can't set response headers from
+ * server components - their numbers show up on /debug/cache instead
+ */
+export function withServerTiming<Args extends unknown[]>(
+  handler: (...args: Args) => Promise<Response>
+): (...args: Args) => Promise<Response> {
+  return async (...args: Args) => {
+    const lookups: RequestLookup[] = [];
+    const response = await requestStorage.run(lookups, () => handler(...args));
+
+    if (lookups.length > 0) {
+      response.headers.append('Server-Timing', serverTimingHeader(lookups));
+    }
+    return response;
+  };
+}
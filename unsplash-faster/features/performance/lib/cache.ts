@@ -1,12 +1,76 @@
 import { unstable_cache as next_unstable_cache } from 'next/cache';
 import { cache } from 'react';
+import { measureLookup, measureQuery, recordCall } from './cache-metrics';
+
+/**
+ * Static key parts, or a function that derives them from the call arguments
+ * so every distinct input (category, cursor, ...) gets its own cache entry
+ */
+type CacheKey<Inputs extends unknown[]> = string[] | ((...args: Inputs) => string[]);
+
+/**
+ * Tags passed to revalidateTag() when the data behind a cache entry changes
+ * Writers revalidate the entities they touched; POST /api/revalidate does it for scripts
+ */
+export const CACHE_TAGS = {
+  // Any listing, count or search over the images table
+  images: 'images',
+  // Category names and per-category counts
+  categories: 'categories',
+  // One image's detail record, by public id
+  image: (publicId: string) => `image:${publicId}`,
+  // Listings scoped to one category
+  category: (slug: string) => `category:${slug}`,
+} as const;
+
+const CACHE_TAG_PATTERN = /^(images|categories|image:[\w-]+|category:[a-z0-9-]+)$/;
+
+export function isCacheTag(tag: string) {
+  return CACHE_TAG_PATTERN.test(tag);
+}
+
+// Like CacheKey - fixed tags, or tags derived from the call arguments. Wrapped in a
+// conditional so a tag function reading only the first argument doesn't narrow Inputs
+// (NoInfer<> would, and then rejects the shorter parameter list)
+type CacheTags<Inputs extends unknown[]> =
+  | string[]
+  | ((...args: [Inputs][Inputs extends unknown ? 0 : never]) => string[]);
+
+interface CacheOptions<Inputs extends unknown[]> {
+  revalidate: number;
+  tags?: CacheTags<Inputs>;
+}
 
 /**
  * NextFaster's enhanced unstable_cache
  * Combines Next.js cache with React cache for perfect deduplication
+ * Every call is counted per key family (the first key part), see cache-metrics.ts
  */
 export const unstable_cache = <Inputs extends unknown[], Output>(
   callback: (...args: Inputs) => Promise<Output>,
-  key: string[],
-  options: { revalidate: number }
-) => cache(next_unstable_cache(callback, key, options));
\ No newline at end of file
+  key: CacheKey<Inputs>,
+  options: CacheOptions<Inputs>
+) => {
+  const { revalidate, tags } = options;
+
+  const lookup = (keyParts: string[], entryTags: string[] | undefined, args: Inputs) => {
+    const family = keyParts[0];
+    const query = (...queryArgs: Inputs) => measureQuery(family, () => callback(...queryArgs));
+    return measureLookup(family, () =>
+      next_unstable_cache(query, keyParts, { revalidate, tags: entryTags })(...args)
+    );
+  };
+
+  // React cache() only reaches the inner function once per render and arguments,
+  // so calls counted here but never looked up were deduplicated
+  const deduplicated = cache((...args: Inputs) => lookup(
+    typeof key === 'function' ? key(...args) : key,
+    typeof tags === 'function' ? tags(...args) : tags,
+    args
+  ));
+
+  return (...args: Inputs): Promise<Output> => {
+    recordCall(typeof key === 'function' ? key(...args)[0] : key[0]);
+    return deduplicated(...args);
+  };
+};
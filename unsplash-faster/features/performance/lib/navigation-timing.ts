@@ -0,0 +1,87 @@
+import type { VitalCacheStatus, VitalSample } from './vitals-api';
+
+/**
+ * How a page view was delivered, for the samples WebVitalsReporter sends
+ *
+ * useReportWebVitals only measures the full page load. Client-side navigations started by
+ * OptimizedLink are timed here instead: from mousedown to the first paint of the new route,
+ * along with whether its RSC payload came from the router cache, the HTTP cache or the network
+ */
+
+interface PendingNavigation {
+  pathname: string;
+  startTime: number;
+  prefetched: boolean;
+}
+
+// A mousedown that never became a navigation shouldn't be matched to a later one
+const PENDING_NAVIGATION_TTL_MS = 10_000;
+
+let pending: PendingNavigation | null = null;
+
+// The Chromium-only fields of the navigation entry we read
+type NavigationEntry = PerformanceNavigationTiming & {
+  activationStart?: number;
+  deliveryType?: string;
+};
+
+/**
+ * Call right before router.push - `prefetched` is whether the route had been prefetched
+ */
+export function markNavigationStart(href: string, prefetched: boolean) {
+  pending = {
+    pathname: new URL(href, window.location.href).pathname,
+    startTime: performance.now(),
+    prefetched,
+  };
+}
+
+// Next.js fetches a route's RSC payload as <path>?_rsc=<hash>; none at all means the router cache answered
+function routePayloadStatus(pathname: string, since: number): VitalCacheStatus {
+  const requests = (performance.getEntriesByType('resource') as PerformanceResourceTiming[])
+    .filter((entry) => {
+      if (entry.startTime < since) return false;
+      const url = new URL(entry.name);
+      return url.pathname === pathname && url.searchParams.has('_rsc');
+    });
+
+  if (requests.length === 0) return 'router';
+  return requests.every((entry) => entry.transferSize === 0) ? 'http' : 'network';
+}
+
+/**
+ * The NAV sample for a client-side navigation that has just painted `pathname`, or null when
+ * no OptimizedLink started one (back/forward buttons, redirects, links elsewhere)
+ */
+export function completeNavigation(pathname: string): VitalSample | null {
+  const navigation = pending;
+  pending = null;
+
+  const now = performance.now();
+  if (!navigation || navigation.pathname !== pathname || now - navigation.startTime > PENDING_NAVIGATION_TTL_MS) {
+    return null;
+  }
+
+  return {
+    name: 'NAV',
+    value: now - navigation.startTime,
+    rating: null,
+    path: pathname,
+    navigationType: 'soft',
+    prefetched: navigation.prefetched,
+    cacheStatus: routePayloadStatus(pathname, navigation.startTime),
+  };
+}
+
+/**
+ * How the document of the current page load was delivered - speculation rules show up as
+ * a prerender activation or a navigational prefetch
+ */
+export function pageLoadDelivery(): Pick<VitalSample, 'prefetched' | 'cacheStatus'> {
+  const entry = performance.getEntriesByType('navigation')[0] as NavigationEntry | undefined;
+  if (!entry) return { prefetched: false, cacheStatus: null };
+
+  if ((entry.activationStart ?? 0) > 0) return { prefetched: true, cacheStatus: 'prerender' };
+  if (entry.deliveryType === 'navigational-prefetch') return { prefetched: true, cacheStatus: 'prefetch' };
+  return { prefetched: false, cacheStatus: entry.transferSize === 0 ? 'http' : 'network' };
+}
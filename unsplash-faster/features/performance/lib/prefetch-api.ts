@@ -0,0 +1,25 @@
+/**
+ * Request and response shapes shared by /api/prefetch-images and OptimizedLink
+ * Kept free of server imports so client components can use the constants
+ */
+
+export interface PrefetchImage {
+  srcset: string;
+  sizes: string;
+  src: string;
+  alt: string;
+  loading: string;
+}
+
+// GET /api/prefetch-images/<href>
+export const PREFETCH_IMAGES_PATH = '/api/prefetch-images';
+
+// POST /api/prefetch-images/batch { hrefs } -> { results: { [href]: PrefetchImage[] } }
+export const PREFETCH_BATCH_PATH = '/api/prefetch-images/batch';
+
+// Hrefs per batch request - a screenful of grid tiles
+export const PREFETCH_BATCH_MAX = 48;
+
+export interface PrefetchBatchResponse {
+  results: Record<string, PrefetchImage[]>;
+}
@@ -0,0 +1,179 @@
+import { createHash } from 'crypto';
+import { getImageProps, type ImageProps } from 'next/image';
+import { parseHTML } from 'linkedom';
+import { getImageById, getImages, getImagesByPhotographer, getImagesByTag, searchImages } from '@/lib/queries';
+import { detailImageProps, GRID_EAGER_COUNT, gridImageProps } from '@/features/gallery/lib/image-props';
+import { parseSearchFilters } from '@/features/search/lib/filters';
+import { createLogger } from '@/lib/logger';
+import type { PrefetchImage } from './prefetch-api';
+
+/**
+ * Which images a page will load, so OptimizedLink can warm them before navigation
+ *
+ * Known routes are resolved from the same cached queries and next/image props the pages
+ * render with - no HTTP round trip to the page, no HTML parsing. Anything else falls back
+ * to fetching the page and reading its <main> images
+ */
+
+const log = createLogger('prefetch');
+
+export interface PrefetchManifest {
+  images: PrefetchImage[];
+  cacheControl: string;
+  // 'route' when resolved from data, 'html' when the page was scraped
+  source: 'route' | 'html';
+}
+
+// Listings change with every ingest - same lifetime as /api/images
+const GALLERY_CACHE_CONTROL = 'public, max-age=60, stale-while-revalidate=3600';
+// A single image's file and title practically never change
+const IMAGE_CACHE_CONTROL = 'public, max-age=3600, stale-while-revalidate=86400';
+const SEARCH_CACHE_CONTROL = 'public, max-age=60, stale-while-revalidate=600';
+const HTML_CACHE_CONTROL = 'public, max-age=3600';
+
+interface PrefetchRoute {
+  // Matched against the pathname only; the query string is passed to resolve
+  pattern: RegExp;
+  cacheControl: string;
+  resolve: (params: string[], searchParams: URLSearchParams) => Promise<PrefetchImage[]>;
+}
+
+function describeImage(imageProps: ImageProps): PrefetchImage {
+  // getImageProps runs the configured loader (lib/image-loader.ts), so the URLs match the rendered <img>
+  const { props } = getImageProps(imageProps);
+  return {
+    srcset: props.srcSet ?? '',
+    sizes: props.sizes ?? '',
+    src: props.src,
+    alt: props.alt,
+    loading: props.loading ?? 'eager',
+  };
+}
+
+// Lazy tiles are skipped by OptimizedLink anyway, so only the eager rows are described
+function describeGrid(images: Array<{ imageUrl: string; title: string }>) {
+  return images
+    .slice(0, GRID_EAGER_COUNT)
+    .map((image, index) => describeImage({ ...gridImageProps(image, index), alt: image.title, fill: true }));
+}
+
+const PREFETCH_ROUTES: PrefetchRoute[] = [
+  {
+    // The gallery, optionally filtered with ?category=
+    pattern: /^\/$/,
+    cacheControl: GALLERY_CACHE_CONTROL,
+    resolve: async (_, searchParams) => {
+      const { images } = await getImages(searchParams.get('category') || undefined);
+      return describeGrid(images);
+    },
+  },
+  {
+    pattern: /^\/image\/([^/]+)$/,
+    cacheControl: IMAGE_CACHE_CONTROL,
+    resolve: async ([publicId]) => {
+      const image = await getImageById(publicId);
+      return image ? [describeImage({ ...detailImageProps(image), alt: image.title, fill: true })] : [];
+    },
+  },
+  {
+    pattern: /^\/search$/,
+    cacheControl: SEARCH_CACHE_CONTROL,
+    resolve: async (_, searchParams) => {
+      const query = searchParams.get('q') ?? '';
+      if (!query.trim()) return [];
+
+      const page = Math.max(1, Number.parseInt(searchParams.get('page') ?? '1', 10) || 1);
+      const { results } = await searchImages(query, page, parseSearchFilters(Object.fromEntries(searchParams)));
+      return describeGrid(results);
+    },
+  },
+  {
+    pattern: /^\/tag\/([^/]+)$/,
+    cacheControl: GALLERY_CACHE_CONTROL,
+    resolve: async ([slug]) => describeGrid((await getImagesByTag(slug)).images),
+  },
+  {
+    pattern: /^\/photographer\/([^/]+)$/,
+    cacheControl: GALLERY_CACHE_CONTROL,
+    resolve: async ([photographerId]) => describeGrid((await getImagesByPhotographer(photographerId)).images),
+  },
+];
+
+/**
+ * Images for a route known to PREFETCH_ROUTES, or null when the page has to be scraped
+ */
+export async function resolvePrefetchImages(url: URL): Promise<PrefetchManifest | null> {
+  for (const route of PREFETCH_ROUTES) {
+    const match = url.pathname.match(route.pattern);
+    if (!match) continue;
+
+    const params = match.slice(1).map(decodeURIComponent);
+    const images = await route.resolve(params, url.searchParams);
+    return { images, cacheControl: route.cacheControl, source: 'route' };
+  }
+  return null;
+}
+
+/**
+ * Fallback for routes without a resolver: render the page and read its images
+ * Returns null when the page can't be fetched
+ */
+export async function scrapePrefetchImages(url: URL): Promise<PrefetchManifest | null> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    log.warn('Page fetch failed', { url: url.href, status: response.status });
+    return null;
+  }
+
+  const { document } = parseHTML(await response.text());
+
+  const images = Array.from(document.querySelectorAll('main img'))
+    .map((img) => ({
+      srcset: img.getAttribute('srcset') || img.getAttribute('srcSet') || '',
+      sizes: img.getAttribute('sizes') || '',
+      src: img.getAttribute('src') || '',
+      alt: img.getAttribute('alt') || '',
+      loading: img.getAttribute('loading') || 'eager',
+    }))
+    .filter((img) => img.src && !img.src.startsWith('data:'));
+
+  return { images, cacheControl: HTML_CACHE_CONTROL, source: 'html' };
+}
+
+/**
+ * Where the server renders pages it scrapes: APP_URL, or this server on localhost.
+ * Never taken from the request - a spoofed Host header would make the server fetch any host
+ */
+export function scrapeOrigin(): string {
+  return new URL(process.env.APP_URL ?? `http://localhost:${process.env.PORT ?? 3000}`).origin;
+}
+
+/**
+ * Images for an href as OptimizedLink sends it ("/image/abc", "/?category=nature"), resolved
+ * against the app's configured origin. Null when an unknown page couldn't be fetched
+ */
+export async function prefetchImagesFor(href: string): Promise<PrefetchManifest | null> {
+  const origin = scrapeOrigin();
+  const target = new URL(href, origin);
+
+  // Only same-origin pages, and never API routes - scraping one of these would call itself
+  if (target.origin !== origin || target.pathname.startsWith('/api/')) {
+    return { images: [], cacheControl: HTML_CACHE_CONTROL, source: 'route' };
+  }
+
+  return await resolvePrefetchImages(target) ?? await scrapePrefetchImages(target);
+}
+
+/**
+ * Strong ETag for a response body - identical manifests get identical tags
+ */
+export function prefetchETag(body: string): string {
+  return `"${createHash('sha1').update(body).digest('base64url')}"`;
+}
+
+// If-None-Match may list several tags, or be * (weak comparison per RFC 9110)
+export function matchesETag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  if (ifNoneMatch.trim() === '*') return true;
+  return ifNoneMatch.split(',').some(tag => tag.trim().replace(/^W\//, '') === etag);
+}
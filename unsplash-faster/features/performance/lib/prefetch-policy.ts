@@ -0,0 +1,152 @@
+/**
+ * How much OptimizedLink may prefetch, decided per link from the network and what this
+ * browser session has already spent
+ *
+ *   none         - nothing until the user clicks
+ *   route        - router.prefetch only (the RSC payload, a few KB)
+ *   route+images - the route plus the page's eager images (hundreds of KB per link)
+ *
+ * The default backs off on Save-Data, prefers-reduced-data and slow connections, and stops
+ * once the session budget is spent. Override it with PrefetchPolicyProvider
+ */
+
+export type PrefetchLevel = 'none' | 'route' | 'route+images';
+
+// What started the prefetch: scrolling into view is speculative, hovering is close to a click
+export type PrefetchTrigger = 'viewport' | 'hover';
+
+export interface NetworkConditions {
+  // navigator.connection.effectiveType - undefined where the API is missing (Safari, Firefox)
+  effectiveType?: 'slow-2g' | '2g' | '3g' | '4g';
+  saveData: boolean;
+  reducedData: boolean;
+}
+
+export interface PrefetchBudget {
+  bytes: number;
+  requests: number;
+}
+
+export type PrefetchUsage = PrefetchBudget;
+
+export interface PrefetchDecisionInput {
+  href: string;
+  trigger: PrefetchTrigger;
+  network: NetworkConditions;
+  usage: PrefetchUsage;
+  budget: PrefetchBudget;
+}
+
+export interface PrefetchPolicy {
+  // Per browser session (survives reloads, not new tabs)
+  budget: PrefetchBudget;
+  decide: (input: PrefetchDecisionInput) => PrefetchLevel;
+}
+
+export const DEFAULT_PREFETCH_BUDGET: PrefetchBudget = {
+  bytes: 10 * 1024 * 1024,
+  requests: 250,
+};
+
+const USAGE_STORAGE_KEY = 'prefetch-usage';
+
+// The subset of the Network Information API we read
+interface NetworkInformation {
+  effectiveType?: NetworkConditions['effectiveType'];
+  saveData?: boolean;
+}
+
+export function readNetworkConditions(): NetworkConditions {
+  if (typeof navigator === 'undefined') {
+    return { saveData: false, reducedData: false };
+  }
+
+  const connection = (navigator as Navigator & { connection?: NetworkInformation }).connection;
+  return {
+    effectiveType: connection?.effectiveType,
+    saveData: connection?.saveData === true,
+    reducedData: typeof window !== 'undefined' &&
+      window.matchMedia?.('(prefers-reduced-data: reduce)').matches === true,
+  };
+}
+
+let usage: PrefetchUsage | null = null;
+
+function loadUsage(): PrefetchUsage {
+  if (usage) return usage;
+  usage = { bytes: 0, requests: 0 };
+
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(USAGE_STORAGE_KEY) ?? 'null');
+    if (Number.isFinite(stored?.bytes) && Number.isFinite(stored?.requests)) {
+      usage = { bytes: stored.bytes, requests: stored.requests };
+    }
+  } catch {
+    // Storage disabled or unreadable - count from zero for this page
+  }
+  return usage;
+}
+
+export function getPrefetchUsage(): PrefetchUsage {
+  return { ...loadUsage() };
+}
+
+/**
+ * Counts prefetch traffic against the session budget
+ * bytes is 0 when unknown (cross-origin without Timing-Allow-Origin, or served from cache)
+ */
+export function recordPrefetchUsage(requests: number, bytes: number = 0) {
+  const current = loadUsage();
+  current.requests += requests;
+  current.bytes += bytes;
+
+  try {
+    sessionStorage.setItem(USAGE_STORAGE_KEY, JSON.stringify(current));
+  } catch {
+    // Over quota or disabled - the in-memory count still applies to this page
+  }
+}
+
+export function resetPrefetchUsage() {
+  usage = { bytes: 0, requests: 0 };
+  try {
+    sessionStorage.removeItem(USAGE_STORAGE_KEY);
+  } catch {
+    // Nothing stored
+  }
+}
+
+export function decidePrefetch({ trigger, network, usage, budget }: PrefetchDecisionInput): PrefetchLevel {
+  const constrained = network.saveData || network.reducedData ||
+    network.effectiveType === 'slow-2g' || network.effectiveType === '2g';
+
+  // A hover is likely to become a click, so its small route payload is fetched anyway
+  if (constrained) return trigger === 'hover' ? 'route' : 'none';
+  if (usage.requests >= budget.requests) return trigger === 'hover' ? 'route' : 'none';
+  if (usage.bytes >= budget.bytes) return 'route';
+  if (network.effectiveType === '3g') return 'route';
+
+  return 'route+images';
+}
+
+export function createPrefetchPolicy(overrides: Partial<PrefetchPolicy> = {}): PrefetchPolicy {
+  return {
+    budget: overrides.budget ?? DEFAULT_PREFETCH_BUDGET,
+    decide: overrides.decide ?? decidePrefetch,
+  };
+}
+
+export const defaultPrefetchPolicy = createPrefetchPolicy();
+
+/**
+ * The level for one link right now
+ */
+export function prefetchLevelFor(policy: PrefetchPolicy, href: string, trigger: PrefetchTrigger): PrefetchLevel {
+  return policy.decide({
+    href,
+    trigger,
+    network: readNetworkConditions(),
+    usage: getPrefetchUsage(),
+    budget: policy.budget,
+  });
+}
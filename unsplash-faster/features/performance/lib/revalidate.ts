@@ -0,0 +1,52 @@
+import { createLogger } from '@/lib/logger';
+
+/**
+ * On-demand revalidation from outside the app (ingest and maintenance scripts)
+ * revalidateTag() only works inside Next.js, so scripts ask the running app via POST /api/revalidate
+ */
+
+const log = createLogger('cache');
+
+export const REVALIDATE_PATH = '/api/revalidate';
+
+// Header the endpoint reads the shared secret from
+export const REVALIDATE_SECRET_HEADER = 'x-revalidate-secret';
+
+/**
+ * Sends the tags to APP_URL (default http://localhost:3000) signed with REVALIDATE_SECRET
+ * Best effort: the data is already written, so a failure only means caches expire on their own
+ */
+export async function requestRevalidation(tags: Iterable<string>): Promise<boolean> {
+  const unique = Array.from(new Set(tags));
+  if (unique.length === 0) return true;
+
+  const secret = process.env.REVALIDATE_SECRET;
+  if (!secret) {
+    log.warn('REVALIDATE_SECRET not set - cache tags left to expire on their own', { count: unique.length });
+    return false;
+  }
+
+  const url = new URL(REVALIDATE_PATH, process.env.APP_URL ?? 'http://localhost:3000');
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [REVALIDATE_SECRET_HEADER]: secret,
+      },
+      body: JSON.stringify({ tags: unique }),
+    });
+
+    if (!response.ok) {
+      log.warn('Revalidation failed', { status: response.status, body: await response.text() });
+      return false;
+    }
+
+    log.info('Revalidated cache tags', { count: unique.length, origin: url.origin });
+    return true;
+  } catch (error) {
+    log.warn('Could not reach the app to revalidate caches', { origin: url.origin, error: (error as Error).message });
+    return false;
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * The browser-native alternative to OptimizedLink's JavaScript prefetching:
+ * <script type="speculationrules"> tells Chromium which links to prefetch or prerender itself
+ *
+ *   optimized-link    - IntersectionObserver/hover prefetching and mousedown navigation (default)
+ *   speculation-rules - SpeculationRules emits rules, covered links navigate as full page loads
+ *                       so the browser can use the prefetched or prerendered document
+ *
+ * Chosen per route with PREFETCH_STRATEGY: a default strategy, optionally followed by per-route
+ * overrides, e.g. PREFETCH_STRATEGY=optimized-link,image=speculation-rules
+ * Browsers without speculation rules keep using OptimizedLink either way
+ */
+
+export type PrefetchStrategy = 'optimized-link' | 'speculation-rules';
+
+// Pages that render SpeculationRules
+export type SpeculationRoute = 'gallery' | 'image' | 'search' | 'tag' | 'photographer';
+
+// immediate: as soon as the rules are seen, eager: shortly after (viewport on mobile),
+// moderate: ~200ms hover or pointerdown, conservative: pointerdown
+export type SpeculationEagerness = 'immediate' | 'eager' | 'moderate' | 'conservative';
+
+// The links one set of rules covers
+export interface SpeculationTargets {
+  // Document rules: same-origin links on the page whose path matches, e.g. '/image/*'
+  patterns?: string[];
+  // List rules: exact hrefs, whether or not they are linked from the page
+  urls?: string[];
+}
+
+export interface SpeculationEagernessOptions {
+  prefetch: SpeculationEagerness;
+  // null skips prerendering - each prerender is a full page render in a hidden tab
+  prerender: SpeculationEagerness | null;
+}
+
+type SpeculationRule =
+  | { source: 'document'; where: { or: Array<{ href_matches: string }> }; eagerness: SpeculationEagerness }
+  | { source: 'list'; urls: string[]; eagerness: SpeculationEagerness };
+
+export interface SpeculationRuleSet {
+  prefetch?: SpeculationRule[];
+  prerender?: SpeculationRule[];
+}
+
+// Every image tile in an ImageGrid, including pages added by infinite scroll
+export const GRID_SPECULATION_TARGETS: SpeculationTargets = { patterns: ['/image/*'] };
+
+// Grid links: fetch what the user is likely to reach, render only what they hover
+export const GRID_SPECULATION: SpeculationEagernessOptions = {
+  prefetch: 'eager',
+  prerender: 'moderate',
+};
+
+// Detail-page neighbours: two pages, one arrow key away
+export const NEIGHBOUR_SPECULATION: SpeculationEagernessOptions = {
+  prefetch: 'immediate',
+  prerender: 'immediate',
+};
+
+const STRATEGIES: PrefetchStrategy[] = ['optimized-link', 'speculation-rules'];
+const DEFAULT_STRATEGY: PrefetchStrategy = 'optimized-link';
+
+function isPrefetchStrategy(value: string): value is PrefetchStrategy {
+  return (STRATEGIES as string[]).includes(value);
+}
+
+/**
+ * The strategy configured for a route (server only - PREFETCH_STRATEGY is not sent to the client)
+ */
+export function prefetchStrategyFor(route: SpeculationRoute): PrefetchStrategy {
+  let strategy = DEFAULT_STRATEGY;
+
+  for (const part of (process.env.PREFETCH_STRATEGY ?? '').split(',')) {
+    const entry = part.trim().toLowerCase();
+    if (!entry) continue;
+
+    const [name, value] = entry.includes('=') ? entry.split('=', 2) : [null, entry];
+    if (!isPrefetchStrategy(value)) continue;
+
+    // A per-route entry wins over the default wherever it appears
+    if (name === route) return value;
+    if (!name) strategy = value;
+  }
+  return strategy;
+}
+
+function rulesFor(targets: SpeculationTargets, eagerness: SpeculationEagerness): SpeculationRule[] {
+  const rules: SpeculationRule[] = [];
+  if (targets.patterns?.length) {
+    rules.push({
+      source: 'document',
+      where: { or: targets.patterns.map((pattern) => ({ href_matches: pattern })) },
+      eagerness,
+    });
+  }
+  if (targets.urls?.length) {
+    rules.push({ source: 'list', urls: targets.urls, eagerness });
+  }
+  return rules;
+}
+
+export function buildSpeculationRules(
+  targets: SpeculationTargets,
+  { prefetch, prerender }: SpeculationEagernessOptions
+): SpeculationRuleSet {
+  const ruleSet: SpeculationRuleSet = { prefetch: rulesFor(targets, prefetch) };
+  if (prerender) ruleSet.prerender = rulesFor(targets, prerender);
+  return ruleSet;
+}
+
+// href_matches patterns are URL patterns; ours only use * as a wildcard
+function patternToRegExp(pattern: string) {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Whether the rules built from `targets` cover a link - OptimizedLink leaves those to the browser
+ */
+export function speculationCovers(targets: SpeculationTargets, href: string): boolean {
+  if (targets.urls?.includes(href)) return true;
+
+  const pathname = href.split(/[?#]/, 1)[0];
+  return targets.patterns?.some((pattern) => patternToRegExp(pattern).test(pathname)) ?? false;
+}
+
+export function speculationRulesSupported(): boolean {
+  return typeof HTMLScriptElement !== 'undefined' &&
+    typeof HTMLScriptElement.supports === 'function' &&
+    HTMLScriptElement.supports('speculationrules');
+}
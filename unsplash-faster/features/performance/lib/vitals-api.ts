@@ -0,0 +1,55 @@
+/**
+ * Sample shapes shared by WebVitalsReporter and POST /api/vitals
+ * Kept free of server imports so client components can use the constants
+ */
+
+// POST /api/vitals { samples } -> 204
+export const VITALS_PATH = '/api/vitals';
+
+// Samples per request - one page view reports five at most, the rest is headroom for long sessions
+export const VITALS_BATCH_MAX = 50;
+
+// Core Web Vitals from useReportWebVitals, plus NAV: a client-side navigation from
+// OptimizedLink's mousedown to the first paint of the new route
+export const VITAL_NAMES = ['LCP', 'INP', 'CLS', 'TTFB', 'NAV'] as const;
+export type VitalName = (typeof VITAL_NAMES)[number];
+
+export const VITAL_RATINGS = ['good', 'needs-improvement', 'poor'] as const;
+export type VitalRating = (typeof VITAL_RATINGS)[number];
+
+// web-vitals' navigation types for full page loads, and soft for client-side navigations
+export const NAVIGATION_TYPES = [
+  'navigate',
+  'reload',
+  'back-forward',
+  'back-forward-cache',
+  'prerender',
+  'restore',
+  'soft',
+] as const;
+export type VitalNavigationType = (typeof NAVIGATION_TYPES)[number];
+
+// Where the page (full load) or the route payload (soft navigation) came from
+//   prerender - activated from a speculation-rules prerender
+//   prefetch  - a speculation-rules prefetch
+//   router    - the Next.js router cache, no request at all
+//   http      - the HTTP cache or the service worker, nothing transferred
+//   network   - fetched from the server
+export const CACHE_STATUSES = ['prerender', 'prefetch', 'router', 'http', 'network'] as const;
+export type VitalCacheStatus = (typeof CACHE_STATUSES)[number];
+
+export interface VitalSample {
+  name: VitalName;
+  value: number;
+  rating: VitalRating | null;
+  // location.pathname - the server maps it to a route pattern
+  path: string;
+  navigationType: VitalNavigationType;
+  // Reached through a link that had been prefetched (OptimizedLink or speculation rules)
+  prefetched: boolean;
+  cacheStatus: VitalCacheStatus | null;
+}
+
+export interface VitalsRequest {
+  samples: VitalSample[];
+}
@@ -0,0 +1,22 @@
+import { splitHighlight } from '../lib/highlight'
+
+interface HighlightProps {
+  text: string
+  className?: string
+}
+
+export function Highlight({ text, className = "" }: HighlightProps) {
+  return (
+    <span className={className}>
+      {splitHighlight(text).map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="bg-yellow-100 text-gray-900 rounded-sm">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </span>
+  )
+}
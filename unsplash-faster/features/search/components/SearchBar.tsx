@@ -1,25 +1,80 @@
 'use client'
 
-import { useState, useTransition } from 'react'
+import { useEffect, useId, useRef, useState, useTransition } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
+import { prefetchHref } from '@/components/custom/OptimizedLink'
+import { createLogger } from '@/lib/logger'
+import { usePrefetchPolicy } from '@/features/performance/components/PrefetchPolicyProvider'
+import { SUGGESTION_MIN_LENGTH, type SearchSuggestion } from '../lib/suggestions'
 
 interface SearchBarProps {
   placeholder?: string
   className?: string
 }
 
+const log = createLogger('search')
+
+const SUGGESTION_DEBOUNCE_MS = 150
+const SEARCH_DEBOUNCE_MS = 500
+
+const SUGGESTION_TYPE_LABELS: Record<SearchSuggestion['type'], string> = {
+  image: 'Image',
+  category: 'Category',
+  photographer: 'Photographer',
+}
+
 export function SearchBar({
   placeholder = "Search images...",
   className = ""
 }: SearchBarProps) {
   const router = useRouter()
+  const policy = usePrefetchPolicy()
   const searchParams = useSearchParams()
   const [isPending, startTransition] = useTransition()
   const [searchValue, setSearchValue] = useState(searchParams.get('q') || '')
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([])
+  const [isOpen, setIsOpen] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(-1)
+  const debounceTimeout = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const searchTimeout = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const suggestionsRequest = useRef<AbortController | null>(null)
+  const listboxId = useId()
 
-  const handleSearch = (value: string) => {
+  // Never let a pending debounce or request outlive the component
+  useEffect(() => {
+    return () => {
+      if (debounceTimeout.current) clearTimeout(debounceTimeout.current)
+      if (searchTimeout.current) clearTimeout(searchTimeout.current)
+      suggestionsRequest.current?.abort()
+    }
+  }, [])
+
+  const closeSuggestions = () => {
+    setIsOpen(false)
+    setActiveIndex(-1)
+  }
+
+  const cancelSuggestions = () => {
+    if (debounceTimeout.current) {
+      clearTimeout(debounceTimeout.current)
+      debounceTimeout.current = null
+    }
+    suggestionsRequest.current?.abort()
+    suggestionsRequest.current = null
+  }
+
+  const cancelSearch = () => {
+    if (searchTimeout.current) {
+      clearTimeout(searchTimeout.current)
+      searchTimeout.current = null
+    }
+  }
+
+  const navigateToSearch = (value: string) => {
     startTransition(() => {
+      // Active filters carry over to the new query, the results page does not
       const params = new URLSearchParams(searchParams)
+      params.delete('page')
 
       if (value.trim()) {
         params.set('q', value.trim())
@@ -33,6 +88,53 @@ export function SearchBar({
     })
   }
 
+  const handleSearch = (value: string) => {
+    cancelSearch()
+    cancelSuggestions()
+    closeSuggestions()
+    navigateToSearch(value)
+  }
+
+  const selectSuggestion = (suggestion: SearchSuggestion) => {
+    cancelSearch()
+    cancelSuggestions()
+    closeSuggestions()
+    startTransition(() => {
+      router.push(suggestion.href)
+    })
+  }
+
+  const fetchSuggestions = async (value: string) => {
+    // Only the latest keystroke's request may update the dropdown
+    suggestionsRequest.current?.abort()
+    const controller = new AbortController()
+    suggestionsRequest.current = controller
+
+    try {
+      const response = await fetch(`/api/search/suggestions?q=${encodeURIComponent(value)}`, {
+        signal: controller.signal,
+      })
+      if (!response.ok) throw new Error(`Suggestions API returned ${response.status}`)
+
+      const data: { suggestions: SearchSuggestion[] } = await response.json()
+      if (controller.signal.aborted) return
+
+      setSuggestions(data.suggestions)
+      setActiveIndex(-1)
+      setIsOpen(data.suggestions.length > 0)
+
+      // The top suggestion is the most likely next page - warm it like a visible OptimizedLink
+      if (data.suggestions[0]) {
+        const { href } = data.suggestions[0]
+        void prefetchHref(router, href, { policy }).catch((error) => log.error('Prefetch failed', { href, error }))
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return
+      log.error('Failed to fetch search suggestions', { error })
+      closeSuggestions()
+    }
+  }
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     handleSearch(searchValue)
@@ -42,26 +144,81 @@ export function SearchBar({
     const value = e.target.value
     setSearchValue(value)
 
-    // Debounced search after user stops typing
-    const timeoutId = setTimeout(() => {
+    // Debounced search after user stops typing - the previous timer is always cleared
+    cancelSearch()
+    searchTimeout.current = setTimeout(() => {
+      searchTimeout.current = null
       if (value !== searchParams.get('q')) {
-        handleSearch(value)
+        navigateToSearch(value)
       }
-    }, 500)
+    }, SEARCH_DEBOUNCE_MS)
 
-    return () => clearTimeout(timeoutId)
+    // Suggestions get their own, shorter debounce
+    cancelSuggestions()
+
+    if (value.trim().length < SUGGESTION_MIN_LENGTH) {
+      setSuggestions([])
+      closeSuggestions()
+      return
+    }
+
+    debounceTimeout.current = setTimeout(() => {
+      debounceTimeout.current = null
+      void fetchSuggestions(value.trim())
+    }, SUGGESTION_DEBOUNCE_MS)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        if (suggestions.length === 0) return
+        e.preventDefault()
+        setIsOpen(true)
+        setActiveIndex((index) => (index + 1) % suggestions.length)
+        break
+      case 'ArrowUp':
+        if (suggestions.length === 0) return
+        e.preventDefault()
+        setIsOpen(true)
+        setActiveIndex((index) => (index <= 0 ? suggestions.length - 1 : index - 1))
+        break
+      case 'Enter':
+        // Without an active option Enter submits the form as a normal search
+        if (isOpen && activeIndex >= 0) {
+          e.preventDefault()
+          selectSuggestion(suggestions[activeIndex])
+        }
+        break
+      case 'Escape':
+        if (isOpen) {
+          e.preventDefault()
+          closeSuggestions()
+        }
+        break
+    }
   }
 
+  const optionId = (index: number) => `${listboxId}-option-${index}`
+
   return (
     <form onSubmit={handleSubmit} className={`relative ${className}`}>
       <div className="relative">
         <input
           type="text"
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={isOpen}
+          aria-controls={listboxId}
+          aria-activedescendant={isOpen && activeIndex >= 0 ? optionId(activeIndex) : undefined}
           value={searchValue}
           onChange={handleInputChange}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsOpen(suggestions.length > 0)}
+          onBlur={closeSuggestions}
           placeholder={placeholder}
-          disabled={isPending}
-          className="w-full px-4 py-2 pl-10 pr-12 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
+          // Never disabled while a search is pending - that would drop focus and the open suggestions
+          aria-busy={isPending}
+          className="w-full px-4 py-2 pl-10 pr-12 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
         />
 
         {/* Search Icon */}
@@ -90,6 +247,7 @@ export function SearchBar({
               type="button"
               onClick={() => {
                 setSearchValue('')
+                setSuggestions([])
                 handleSearch('')
               }}
               className="text-gray-400 hover:text-gray-600 transition-colors"
@@ -101,6 +259,38 @@ export function SearchBar({
           ) : null}
         </div>
       </div>
+
+      {/* Suggestions dropdown */}
+      <ul
+        id={listboxId}
+        role="listbox"
+        hidden={!isOpen}
+        className="absolute z-50 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg overflow-hidden"
+      >
+        {suggestions.map((suggestion, index) => (
+          <li
+            key={`${suggestion.type}-${suggestion.href}`}
+            id={optionId(index)}
+            role="option"
+            aria-selected={index === activeIndex}
+            // Keep focus in the input so blur doesn't close the list before the click lands
+            onMouseDown={(e) => e.preventDefault()}
+            onMouseEnter={() => {
+              setActiveIndex(index)
+              void prefetchHref(router, suggestion.href, { policy, trigger: 'hover' }).catch((error) => log.error('Prefetch failed', { href: suggestion.href, error }))
+            }}
+            onClick={() => selectSuggestion(suggestion)}
+            className={`flex justify-between items-center px-4 py-2 text-sm cursor-pointer ${
+              index === activeIndex ? 'bg-blue-50 text-blue-700' : 'text-gray-700'
+            }`}
+          >
+            <span className="truncate">{suggestion.label}</span>
+            <span className="ml-2 shrink-0 text-xs text-gray-400">
+              {SUGGESTION_TYPE_LABELS[suggestion.type]}
+            </span>
+          </li>
+        ))}
+      </ul>
     </form>
   )
-}
\ No newline at end of file
+}
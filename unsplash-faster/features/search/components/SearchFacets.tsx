@@ -0,0 +1,99 @@
+import { OptimizedLink } from '@/components/custom/OptimizedLink'
+import type { FacetCount, SearchFacets as SearchFacetsData } from '@/lib/queries'
+import { buildSearchHref, hasSearchFilters, type SearchFilters } from '../lib/filters'
+
+interface SearchFacetsProps {
+  query: string
+  filters: SearchFilters
+  facets: SearchFacetsData
+}
+
+interface FacetGroupProps<Value extends string | number> {
+  title: string
+  options: FacetCount<Value>[]
+  selected: Value | undefined
+  hrefFor: (value: Value | undefined) => string
+}
+
+function FacetGroup<Value extends string | number>({ title, options, selected, hrefFor }: FacetGroupProps<Value>) {
+  if (options.length === 0) return null
+
+  return (
+    <div>
+      <h3 className="text-sm font-medium text-gray-900 mb-2">{title}</h3>
+      <ul className="space-y-1">
+        {options.map((option) => {
+          const isSelected = option.value === selected
+          const isEmpty = option.count === 0 && !isSelected
+
+          return (
+            <li key={option.value}>
+              <OptimizedLink
+                // Selecting the active option again clears that filter
+                href={hrefFor(isSelected ? undefined : option.value)}
+                prefetch={false}
+                className={`flex justify-between items-center px-3 py-1.5 rounded-md text-sm transition-colors ${
+                  isSelected
+                    ? 'bg-blue-50 text-blue-700 border border-blue-200'
+                    : isEmpty
+                      ? 'text-gray-300 pointer-events-none'
+                      : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                <span className="truncate">{option.label}</span>
+                <span className="ml-2 text-gray-500">{option.count}</span>
+              </OptimizedLink>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
+
+export function SearchFacets({ query, filters, facets }: SearchFacetsProps) {
+  // Changing any filter starts again from the first page of results
+  const hrefWith = (patch: Partial<SearchFilters>) => buildSearchHref(query, { ...filters, ...patch })
+
+  return (
+    <aside className="w-64 shrink-0 border-r border-gray-200 p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-semibold text-gray-900">Filters</h2>
+        {hasSearchFilters(filters) && (
+          <OptimizedLink
+            href={buildSearchHref(query, {})}
+            prefetch={false}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            Clear all
+          </OptimizedLink>
+        )}
+      </div>
+
+      <FacetGroup
+        title="Category"
+        options={facets.categories}
+        selected={filters.category}
+        hrefFor={(category) => hrefWith({ category })}
+      />
+      <FacetGroup
+        title="Orientation"
+        options={facets.orientations}
+        selected={filters.orientation}
+        hrefFor={(orientation) => hrefWith({ orientation })}
+      />
+      <FacetGroup
+        title="Photographer"
+        options={facets.photographers}
+        selected={filters.photographer}
+        hrefFor={(photographer) => hrefWith({ photographer })}
+      />
+      <FacetGroup
+        title="Likes"
+        options={facets.minLikes}
+        selected={filters.minLikes}
+        hrefFor={(minLikes) => hrefWith({ minLikes })}
+      />
+    </aside>
+  )
+}
@@ -0,0 +1,72 @@
+/**
+ * Structured search filters, encoded in the /search URL so a filtered
+ * search can be shared, bookmarked and prefetched like any other page
+ */
+
+export const ORIENTATIONS = ['landscape', 'portrait', 'square'] as const;
+export type Orientation = (typeof ORIENTATIONS)[number];
+
+// Thresholds offered for the "minimum likes" facet
+export const MIN_LIKES_OPTIONS = [10, 50, 100, 500, 1000] as const;
+
+export interface SearchFilters {
+  category?: string;
+  orientation?: Orientation;
+  photographer?: string;
+  minLikes?: number;
+}
+
+type SearchParamsRecord = Record<string, string | string[] | undefined>;
+
+function firstValue(value: string | string[] | undefined): string | undefined {
+  const single = Array.isArray(value) ? value[0] : value;
+  return single?.trim() || undefined;
+}
+
+function isOrientation(value: string | undefined): value is Orientation {
+  return ORIENTATIONS.includes(value as Orientation);
+}
+
+export function parseSearchFilters(params: SearchParamsRecord): SearchFilters {
+  const filters: SearchFilters = {};
+
+  const category = firstValue(params.category);
+  if (category) filters.category = category;
+
+  const orientation = firstValue(params.orientation);
+  if (isOrientation(orientation)) filters.orientation = orientation;
+
+  const photographer = firstValue(params.photographer);
+  if (photographer) filters.photographer = photographer;
+
+  const minLikes = Number.parseInt(firstValue(params.min_likes) || '', 10);
+  if (Number.isInteger(minLikes) && minLikes > 0) filters.minLikes = minLikes;
+
+  return filters;
+}
+
+// Stable string form of the filters, used for cache keys
+export function searchFiltersKey(filters: SearchFilters): string {
+  return [
+    filters.category || '',
+    filters.orientation || '',
+    filters.photographer?.toLowerCase() || '',
+    filters.minLikes?.toString() || '',
+  ].join('|');
+}
+
+export function hasSearchFilters(filters: SearchFilters): boolean {
+  return searchFiltersKey(filters) !== '|||';
+}
+
+export function buildSearchHref(query: string, filters: SearchFilters, page: number = 1): string {
+  const params = new URLSearchParams({ q: query });
+
+  if (filters.category) params.set('category', filters.category);
+  if (filters.orientation) params.set('orientation', filters.orientation);
+  if (filters.photographer) params.set('photographer', filters.photographer);
+  if (filters.minLikes) params.set('min_likes', filters.minLikes.toString());
+  if (page > 1) params.set('page', page.toString());
+
+  return `/search?${params.toString()}`;
+}
@@ -0,0 +1,39 @@
+/**
+ * Markers ts_headline wraps around matched words
+ * Rendered by splitting on them rather than as HTML, so image descriptions
+ * can never inject markup into the page
+ */
+export const HIGHLIGHT_START = '<mark>';
+export const HIGHLIGHT_STOP = '</mark>';
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+export function splitHighlight(headline: string): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let rest = headline;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(HIGHLIGHT_START);
+    if (start === -1) {
+      segments.push({ text: rest, highlighted: false });
+      break;
+    }
+
+    const stop = rest.indexOf(HIGHLIGHT_STOP, start + HIGHLIGHT_START.length);
+    if (stop === -1) {
+      segments.push({ text: rest, highlighted: false });
+      break;
+    }
+
+    if (start > 0) {
+      segments.push({ text: rest.slice(0, start), highlighted: false });
+    }
+    segments.push({ text: rest.slice(start + HIGHLIGHT_START.length, stop), highlighted: true });
+    rest = rest.slice(stop + HIGHLIGHT_STOP.length);
+  }
+
+  return segments;
+}
@@ -0,0 +1,14 @@
+/**
+ * Search-as-you-type suggestions returned by /api/search/suggestions
+ * Each suggestion is a ready-to-navigate route so the dropdown can prefetch it
+ */
+
+export type SearchSuggestionType = 'image' | 'category' | 'photographer';
+
+export interface SearchSuggestion {
+  type: SearchSuggestionType;
+  label: string;
+  href: string;
+}
+
+export const SUGGESTION_MIN_LENGTH = 1;
@@ -0,0 +1,44 @@
+import type { ImageLoaderProps } from 'next/image';
+
+/**
+ * next/image loader (images.loaderFile in next.config.js)
+ * A custom loader turns off /_next/image entirely, so nothing may point there:
+ * self-hosted images already exist at every configured width, hotlinked Unsplash URLs
+ * are resized by Unsplash's own CDN, and anything else (files in public/) is served as is
+ */
+
+export const SELF_HOSTED_PATH = '/img';
+
+const UNSPLASH_HOST = 'images.unsplash.com';
+
+export function isSelfHostedUrl(src: string) {
+  return src.startsWith(`${SELF_HOSTED_PATH}/`);
+}
+
+function unsplashUrl(src: string) {
+  try {
+    const url = new URL(src);
+    return url.hostname === UNSPLASH_HOST ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+export default function imageLoader({ src, width, quality }: ImageLoaderProps) {
+  if (isSelfHostedUrl(src)) {
+    // Variants are pre-encoded, so quality doesn't apply
+    return `${src}/${width}`;
+  }
+
+  const unsplash = unsplashUrl(src);
+  if (unsplash) {
+    // Unsplash's imgix parameters, the same ones lib/unsplash.ts builds its URLs with
+    unsplash.searchParams.set('w', width.toString());
+    unsplash.searchParams.set('q', (quality ?? 75).toString());
+    unsplash.searchParams.set('fm', 'webp');
+    unsplash.searchParams.set('fit', 'max');
+    return unsplash.toString();
+  }
+
+  return src;
+}
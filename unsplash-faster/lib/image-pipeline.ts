@@ -0,0 +1,137 @@
+import sharp from 'sharp';
+import nextConfig from '../next.config.js';
+import { isSelfHostedUrl, SELF_HOSTED_PATH } from './image-loader';
+import { getImageStorage, type ImageStorage, type StoredObject } from './image-storage';
+
+/**
+ * Self-hosted image variants: one original in, an AVIF and a WebP per responsive width out
+ * Widths are exactly the ones next/image can ask the loader for, so no request ever needs resizing
+ */
+
+export const VARIANT_WIDTHS = Array.from(
+  new Set([...(nextConfig.images?.imageSizes ?? []), ...(nextConfig.images?.deviceSizes ?? [])])
+).sort((a, b) => a - b);
+
+export const MAX_VARIANT_WIDTH = VARIANT_WIDTHS[VARIANT_WIDTHS.length - 1];
+
+export type VariantFormat = 'avif' | 'webp';
+
+const VARIANT_ENCODERS: Record<VariantFormat, (image: sharp.Sharp) => sharp.Sharp> = {
+  avif: (image) => image.avif({ quality: 50, effort: 4 }),
+  webp: (image) => image.webp({ quality: 75 }),
+};
+
+const FORMATS = Object.keys(VARIANT_ENCODERS) as VariantFormat[];
+
+// EXIF orientations 5-8 are rotated a quarter turn, so width and height swap
+const QUARTER_TURN_ORIENTATIONS = new Set([5, 6, 7, 8]);
+
+export interface HostedImage {
+  // Loader-aware URL stored in images.image_url
+  imageUrl: string;
+  // Largest stored variant, stored in images.original_url for "View at full size"
+  originalUrl: string;
+  // Bytes of the downloaded original
+  fileSize: number;
+  width: number;
+  height: number;
+  variantCount: number;
+}
+
+// Storage keys double as URL segments, so keep them to a safe alphabet
+export function imageStorageKey(sourceId: string) {
+  return sourceId.replace(/[^a-zA-Z0-9_-]/g, '_');
+}
+
+export function selfHostedImageUrl(imageKey: string) {
+  return `${SELF_HOSTED_PATH}/${imageKey}`;
+}
+
+// Widths stored for an original this wide - the ladder up to it, or just its own width when narrower
+function variantWidthsFor(width: number) {
+  const fitting = VARIANT_WIDTHS.filter(variantWidth => variantWidth <= width);
+  return fitting.length > 0 ? fitting : [width];
+}
+
+// /img/<key> alone has no route - the full-size link points at the largest variant
+export function selfHostedOriginalUrl(imageKey: string, width: number) {
+  const widths = variantWidthsFor(width);
+  return `${selfHostedImageUrl(imageKey)}/${widths[widths.length - 1]}`;
+}
+
+// Inverse of selfHostedImageUrl, null for images that aren't self-hosted
+export function imageKeyFromUrl(imageUrl: string): string | null {
+  return isSelfHostedUrl(imageUrl) ? imageUrl.slice(SELF_HOSTED_PATH.length + 1) : null;
+}
+
+function variantKey(imageKey: string, width: number, format: VariantFormat) {
+  return `${imageKey}/${width}.${format}`;
+}
+
+/**
+ * Encodes the width ladder in every format and stores it with the original
+ * Widths above the original's are skipped - readVariant serves the largest one instead
+ */
+export async function storeImageVariants(
+  original: Buffer,
+  imageKey: string,
+  storage: ImageStorage = getImageStorage()
+): Promise<HostedImage> {
+  const metadata = await sharp(original).metadata();
+  if (!metadata.width || !metadata.height || !metadata.format) {
+    throw new Error(`Could not read image dimensions for ${imageKey}`);
+  }
+
+  const rotated = QUARTER_TURN_ORIENTATIONS.has(metadata.orientation ?? 1);
+  const width = rotated ? metadata.height : metadata.width;
+  const height = rotated ? metadata.width : metadata.height;
+
+  const widths = variantWidthsFor(width);
+
+  await storage.put(`${imageKey}/original.${metadata.format}`, original, `image/${metadata.format}`);
+
+  for (const variantWidth of widths) {
+    const resized = sharp(original).rotate().resize({ width: variantWidth, withoutEnlargement: true });
+
+    for (const format of FORMATS) {
+      const body = await VARIANT_ENCODERS[format](resized.clone()).toBuffer();
+      await storage.put(variantKey(imageKey, variantWidth, format), body, `image/${format}`);
+    }
+  }
+
+  return {
+    imageUrl: selfHostedImageUrl(imageKey),
+    originalUrl: selfHostedOriginalUrl(imageKey, width),
+    fileSize: original.length,
+    width,
+    height,
+    variantCount: widths.length * FORMATS.length,
+  };
+}
+
+// AVIF when the browser advertises it, WebP otherwise
+export function preferredFormat(accept: string | null): VariantFormat {
+  return accept?.includes('image/avif') ? 'avif' : 'webp';
+}
+
+/**
+ * The stored variant for a requested width: exact match, else the closest smaller
+ * (small originals), else the closest larger one
+ */
+export async function readVariant(
+  imageKey: string,
+  width: number,
+  format: VariantFormat,
+  storage: ImageStorage = getImageStorage()
+): Promise<StoredObject | null> {
+  const smaller = VARIANT_WIDTHS.filter(candidate => candidate <= width).reverse();
+  const larger = VARIANT_WIDTHS.filter(candidate => candidate > width);
+
+  for (const candidate of [...smaller, ...larger]) {
+    const variant = await storage.get(variantKey(imageKey, candidate, format));
+    if (variant) return variant;
+  }
+
+  // Originals narrower than the whole ladder were stored at their own width
+  return storage.get(variantKey(imageKey, width, format));
+}
@@ -0,0 +1,116 @@
+import type { Image, PhotoExif, PhotoLocation } from './schema';
+
+/**
+ * Image providers: everything ingestion needs from a place photos come from
+ * UnsplashAPI (lib/unsplash.ts) and LocalDirectorySource (lib/local-source.ts) implement it;
+ * uploads (lib/uploads.ts) have no provider, they are stored as source "upload"
+ */
+
+export type ImageSource = 'unsplash' | 'local' | 'upload';
+
+export type ImageOrientation = 'landscape' | 'portrait' | 'squarish';
+
+export interface SourceAuthor {
+  // Stable id at the provider - only authors with one get a /photographer page
+  id: string | null;
+  name: string;
+  url: string | null;
+}
+
+/**
+ * One image as a provider describes it, before it becomes an `images` row
+ */
+export interface SourceImage {
+  sourceId: string;
+  // null lets ingestion fall back to a category-based title
+  title: string | null;
+  description: string | null;
+  width: number;
+  height: number;
+  author: SourceAuthor | null;
+  likes: number | null;
+  // The image's page on the provider's site
+  pageUrl: string | null;
+  // Full-size URL (or path) handed back to fetchOriginal
+  originalUrl: string;
+  dominantColor: string | null;
+  blurHash: string | null;
+  tags: string[];
+}
+
+// Camera, place and the full tag list - providers that have them return them on request
+export interface SourceImageDetails {
+  exif: PhotoExif | null;
+  location: PhotoLocation | null;
+  tags: string[];
+}
+
+/**
+ * What to list - `feed` is provider-specific (an Unsplash search term, "topic:<slug>", ...)
+ */
+export interface SourceQuery {
+  feed: string;
+  orientation?: ImageOrientation;
+  color?: string;
+}
+
+export interface SourcePage {
+  images: SourceImage[];
+  totalPages: number;
+}
+
+export interface ImageSourceProvider {
+  readonly source: ImageSource;
+  listImages(query: SourceQuery, page: number, perPage: number): Promise<SourcePage>;
+  // The original file, no wider than maxWidth where the provider can resize on its side
+  fetchOriginal(image: SourceImage, maxWidth: number): Promise<Buffer>;
+  // URL to display without self-hosting, null when the provider can't be hotlinked
+  hotlinkUrl(image: SourceImage): string | null;
+  getDetails?(image: SourceImage): Promise<SourceImageDetails>;
+  // Called once when an image is first stored (Unsplash counts downloads)
+  recordDownload?(image: SourceImage): Promise<void>;
+}
+
+export const SOURCE_LABELS: Record<ImageSource, string> = {
+  unsplash: 'Unsplash',
+  local: 'Local library',
+  upload: 'Community upload',
+};
+
+/**
+ * The image's identity in /image/<publicId>
+ * Unsplash photos keep their bare id so URLs from before sources existed still resolve
+ */
+export function publicIdFor(source: ImageSource, sourceId: string) {
+  const safeId = sourceId.replace(/[^a-zA-Z0-9_-]/g, '_');
+  return source === 'unsplash' ? safeId : `${source}_${safeId}`;
+}
+
+export interface Attribution {
+  authorName: string | null;
+  // Internal /photographer page when the author has an id, else their page at the provider
+  authorHref: string | null;
+  authorIsInternal: boolean;
+  sourceLabel: string;
+  sourceHref: string | null;
+}
+
+/**
+ * Credit line for an image, following what its provider asks for
+ * (Unsplash: "Photo by <author> on Unsplash", linking both)
+ */
+export function imageAttribution(
+  image: Pick<Image, 'source' | 'sourceUrl' | 'authorId' | 'authorName' | 'authorUrl'>
+): Attribution {
+  const authorHref = image.authorId
+    ? `/photographer/${encodeURIComponent(image.authorId)}`
+    : image.authorUrl;
+
+  return {
+    authorName: image.authorName,
+    authorHref,
+    authorIsInternal: Boolean(image.authorId),
+    sourceLabel: SOURCE_LABELS[image.source],
+    sourceHref: image.sourceUrl,
+  };
+}
@@ -0,0 +1,87 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, extname, resolve, sep } from 'path';
+
+/**
+ * Where self-hosted image files live
+ * Keys are relative paths like "abc123/640.avif"; the backend decides what that maps to
+ */
+
+export interface StoredObject {
+  body: Buffer;
+  contentType: string;
+}
+
+export interface ImageStorage {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  // null when nothing is stored under the key
+  get(key: string): Promise<StoredObject | null>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.avif': 'image/avif',
+  '.webp': 'image/webp',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+};
+
+export const DEFAULT_STORAGE_DIR = 'storage/images';
+
+/**
+ * Files on local disk - the content type comes back from the key's extension
+ */
+export class LocalImageStorage implements ImageStorage {
+  private readonly root: string;
+
+  constructor(root: string = DEFAULT_STORAGE_DIR) {
+    this.root = resolve(process.cwd(), root);
+  }
+
+  // Keys come from URLs, so refuse anything that would escape the storage root
+  private pathFor(key: string) {
+    const path = resolve(this.root, key);
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const path = this.pathFor(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, body);
+  }
+
+  async get(key: string): Promise<StoredObject | null> {
+    try {
+      const body = await readFile(this.pathFor(key));
+      return {
+        body,
+        contentType: CONTENT_TYPES[extname(key).toLowerCase()] ?? 'application/octet-stream',
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+}
+
+let storage: ImageStorage | null = null;
+
+/**
+ * Backend picked by IMAGE_STORAGE ("local" by default, files under IMAGE_STORAGE_DIR)
+ * An S3-compatible backend only needs to implement ImageStorage and be added here
+ */
+export function getImageStorage(): ImageStorage {
+  if (storage) return storage;
+
+  const backend = process.env.IMAGE_STORAGE ?? 'local';
+  switch (backend) {
+    case 'local':
+      storage = new LocalImageStorage(process.env.IMAGE_STORAGE_DIR ?? DEFAULT_STORAGE_DIR);
+      return storage;
+    default:
+      throw new Error(`Unsupported IMAGE_STORAGE "${backend}" - only "local" is implemented`);
+  }
+}
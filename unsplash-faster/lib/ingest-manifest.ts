@@ -0,0 +1,187 @@
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { UNSPLASH_COLORS, type UnsplashColor, type UnsplashOrientation } from './unsplash';
+
+/**
+ * Category manifest driving ingestion (data/categories.yaml by default)
+ * Lets the content team add or tune a category without writing TypeScript
+ */
+
+export const DEFAULT_MANIFEST_PATH = 'data/categories.yaml';
+
+const ORIENTATIONS: readonly UnsplashOrientation[] = ['landscape', 'portrait', 'squarish'];
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const MAX_TARGET_COUNT = 1000;
+const CATEGORY_FIELDS = ['slug', 'name', 'searchTerms', 'topics', 'collections', 'targetCount', 'orientation', 'color'];
+const TOPIC_PATTERN = /^[a-z0-9-]+$/;
+
+export interface CategoryDefinition {
+  slug: string;
+  name: string;
+  // Curated Unsplash topics (slugs) and collections (ids), then keyword searches -
+  // walked in that order until targetCount images have been ingested
+  topics: string[];
+  collections: string[];
+  searchTerms: string[];
+  targetCount: number;
+  orientation?: UnsplashOrientation;
+  color?: UnsplashColor;
+}
+
+export interface IngestManifest {
+  categories: CategoryDefinition[];
+}
+
+/**
+ * Thrown for a manifest that can't be read or doesn't validate
+ * The message lists every problem with its location, one per line
+ */
+export class ManifestError extends Error {
+  constructor(public readonly source: string, public readonly issues: string[]) {
+    super(`Invalid manifest ${source}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ManifestError';
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+// Optional list field: absent means empty, present must hold non-empty strings
+function validateList(
+  raw: Record<string, unknown>,
+  field: string,
+  path: string,
+  issues: string[],
+  isValid: (item: string) => boolean = () => true,
+  hint: string = 'a non-empty string'
+): string[] {
+  const value = raw[field];
+  if (value === undefined) return [];
+
+  if (!Array.isArray(value)) {
+    issues.push(`${path}.${field}: must be a list`);
+    return [];
+  }
+
+  return value.flatMap((item, index) => {
+    // YAML reads bare collection ids as numbers
+    const text = typeof item === 'number' && Number.isInteger(item) ? String(item) : item;
+    if (!isNonEmptyString(text) || !isValid(text.trim())) {
+      issues.push(`${path}.${field}[${index}]: must be ${hint} (got ${JSON.stringify(item)})`);
+      return [];
+    }
+    return [text.trim()];
+  });
+}
+
+function validateCategory(raw: unknown, path: string, issues: string[]): CategoryDefinition | null {
+  if (!isRecord(raw)) {
+    issues.push(`${path}: must be an object with slug, name, targetCount and searchTerms, topics or collections`);
+    return null;
+  }
+
+  const startingIssues = issues.length;
+
+  for (const key of Object.keys(raw)) {
+    if (!CATEGORY_FIELDS.includes(key)) {
+      issues.push(`${path}.${key}: unknown field (expected one of ${CATEGORY_FIELDS.join(', ')})`);
+    }
+  }
+
+  if (!isNonEmptyString(raw.slug) || !SLUG_PATTERN.test(raw.slug)) {
+    issues.push(`${path}.slug: must be lowercase letters, numbers and dashes (got ${JSON.stringify(raw.slug)})`);
+  }
+  if (!isNonEmptyString(raw.name)) {
+    issues.push(`${path}.name: must be a non-empty string`);
+  }
+
+  const searchTerms = validateList(raw, 'searchTerms', path, issues);
+  const topics = validateList(raw, 'topics', path, issues, topic => TOPIC_PATTERN.test(topic), 'an Unsplash topic slug like "nature"');
+  const collections = validateList(raw, 'collections', path, issues, id => /^\w+$/.test(id), 'an Unsplash collection id');
+  if (raw.searchTerms === undefined && raw.topics === undefined && raw.collections === undefined) {
+    issues.push(`${path}: needs at least one of searchTerms, topics or collections`);
+  } else if (searchTerms.length + topics.length + collections.length === 0 && issues.length === startingIssues) {
+    issues.push(`${path}: searchTerms, topics and collections are all empty`);
+  }
+  if (!Number.isInteger(raw.targetCount) || (raw.targetCount as number) <= 0 || (raw.targetCount as number) > MAX_TARGET_COUNT) {
+    issues.push(`${path}.targetCount: must be a whole number between 1 and ${MAX_TARGET_COUNT} (got ${JSON.stringify(raw.targetCount)})`);
+  }
+  if (raw.orientation !== undefined && !ORIENTATIONS.includes(raw.orientation as UnsplashOrientation)) {
+    issues.push(`${path}.orientation: must be one of ${ORIENTATIONS.join(', ')} (got ${JSON.stringify(raw.orientation)})`);
+  }
+  if (raw.color !== undefined && !UNSPLASH_COLORS.includes(raw.color as UnsplashColor)) {
+    issues.push(`${path}.color: must be one of ${UNSPLASH_COLORS.join(', ')} (got ${JSON.stringify(raw.color)})`);
+  }
+
+  if (issues.length > startingIssues) return null;
+
+  return {
+    slug: raw.slug as string,
+    name: (raw.name as string).trim(),
+    topics,
+    collections,
+    searchTerms,
+    targetCount: raw.targetCount as number,
+    ...(raw.orientation !== undefined && { orientation: raw.orientation as UnsplashOrientation }),
+    ...(raw.color !== undefined && { color: raw.color as UnsplashColor }),
+  };
+}
+
+export function validateManifest(raw: unknown, source: string = 'manifest'): IngestManifest {
+  const issues: string[] = [];
+
+  if (!isRecord(raw) || !Array.isArray(raw.categories)) {
+    throw new ManifestError(source, ['top level: must be an object with a "categories" list']);
+  }
+  if (raw.categories.length === 0) {
+    throw new ManifestError(source, ['categories: must list at least one category']);
+  }
+
+  const seenSlugs = new Map<string, number>();
+  const categoryDefinitions: CategoryDefinition[] = [];
+
+  raw.categories.forEach((rawCategory, index) => {
+    const category = validateCategory(rawCategory, `categories[${index}]`, issues);
+    if (!category) return;
+
+    const firstIndex = seenSlugs.get(category.slug);
+    if (firstIndex !== undefined) {
+      issues.push(`categories[${index}].slug: "${category.slug}" is already used by categories[${firstIndex}]`);
+      return;
+    }
+
+    seenSlugs.set(category.slug, index);
+    categoryDefinitions.push(category);
+  });
+
+  if (issues.length > 0) {
+    throw new ManifestError(source, issues);
+  }
+
+  return { categories: categoryDefinitions };
+}
+
+// Reads a .json, .yaml or .yml manifest and validates it
+export async function loadManifest(path: string = DEFAULT_MANIFEST_PATH): Promise<IngestManifest> {
+  let contents: string;
+  try {
+    contents = await readFile(path, 'utf8');
+  } catch (error) {
+    throw new ManifestError(path, [`could not read file: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+
+  let raw: unknown;
+  try {
+    raw = extname(path) === '.json' ? JSON.parse(contents) : parseYaml(contents);
+  } catch (error) {
+    throw new ManifestError(path, [`could not parse file: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+
+  return validateManifest(raw, path);
+}
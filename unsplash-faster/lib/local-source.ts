@@ -0,0 +1,214 @@
+import { readFile } from 'fs/promises';
+import { relative, resolve, sep } from 'path';
+import sharp from 'sharp';
+import { ManifestError } from './ingest-manifest';
+import type { ImageSourceProvider, SourceAuthor, SourceImage, SourcePage, SourceQuery } from './image-source';
+
+/**
+ * Provider for a folder of image files described by a sidecar manifest.json:
+ *
+ *   {
+ *     "author": { "name": "Studio Archive", "url": "https://example.com" },
+ *     "images": [
+ *       { "file": "harbour.jpg", "title": "Harbour at dawn", "tags": ["sea", "boats"] },
+ *       { "file": "2019/market.png", "id": "market", "author": { "name": "Ana Lima" } }
+ *     ]
+ *   }
+ *
+ * "author" at the top is the default credit; "id" defaults to the file path and must stay
+ * stable, since re-importing the folder updates the rows it matches
+ */
+
+export const LOCAL_MANIFEST_FILE = 'manifest.json';
+
+const ENTRY_FIELDS = ['file', 'id', 'title', 'description', 'tags', 'author', 'url'];
+const QUARTER_TURN_ORIENTATIONS = new Set([5, 6, 7, 8]);
+
+interface LocalEntry {
+  file: string;
+  id: string;
+  title: string | null;
+  description: string | null;
+  tags: string[];
+  author: SourceAuthor | null;
+  url: string | null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(raw: Record<string, unknown>, field: string, path: string, issues: string[]): string | null {
+  const value = raw[field];
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'string' || !value.trim()) {
+    issues.push(`${path}.${field}: must be a non-empty string`);
+    return null;
+  }
+  return value.trim();
+}
+
+function validateAuthor(raw: unknown, path: string, issues: string[]): SourceAuthor | null {
+  if (raw === undefined || raw === null) return null;
+  if (!isRecord(raw)) {
+    issues.push(`${path}: must be an object with a name`);
+    return null;
+  }
+
+  const name = optionalString(raw, 'name', path, issues);
+  if (!name) {
+    issues.push(`${path}.name: is required`);
+    return null;
+  }
+  // Local authors have no id, so their credit links out to `url` rather than a /photographer page
+  return { id: null, name, url: optionalString(raw, 'url', path, issues) };
+}
+
+function validateEntry(raw: unknown, index: number, root: string, defaultAuthor: SourceAuthor | null, issues: string[]): LocalEntry | null {
+  const path = `images[${index}]`;
+  if (!isRecord(raw)) {
+    issues.push(`${path}: must be an object`);
+    return null;
+  }
+
+  for (const field of Object.keys(raw)) {
+    if (!ENTRY_FIELDS.includes(field)) {
+      issues.push(`${path}.${field}: unknown field (expected one of ${ENTRY_FIELDS.join(', ')})`);
+    }
+  }
+
+  const file = optionalString(raw, 'file', path, issues);
+  if (!file) {
+    issues.push(`${path}.file: is required`);
+    return null;
+  }
+  // Entries can point into subfolders, never outside the folder
+  if (!resolve(root, file).startsWith(root + sep)) {
+    issues.push(`${path}.file: must be inside the folder (got ${JSON.stringify(file)})`);
+    return null;
+  }
+
+  let tags: string[] = [];
+  if (raw.tags !== undefined) {
+    if (Array.isArray(raw.tags) && raw.tags.every(tag => typeof tag === 'string' && tag.trim())) {
+      tags = raw.tags.map(tag => tag.trim());
+    } else {
+      issues.push(`${path}.tags: must be a list of non-empty strings`);
+    }
+  }
+
+  return {
+    file,
+    id: optionalString(raw, 'id', path, issues) ?? relative(root, resolve(root, file)).split(sep).join('/'),
+    title: optionalString(raw, 'title', path, issues),
+    description: optionalString(raw, 'description', path, issues),
+    tags,
+    author: validateAuthor(raw.author, `${path}.author`, issues) ?? defaultAuthor,
+    url: optionalString(raw, 'url', path, issues),
+  };
+}
+
+/**
+ * Reads and validates <dir>/manifest.json - every problem is reported at once
+ */
+export async function loadLocalManifest(dir: string): Promise<LocalEntry[]> {
+  const root = resolve(dir);
+  const manifestPath = resolve(root, LOCAL_MANIFEST_FILE);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(manifestPath, 'utf8'));
+  } catch (error) {
+    throw new ManifestError(manifestPath, [`could not read: ${(error as Error).message}`]);
+  }
+
+  if (!isRecord(raw) || !Array.isArray(raw.images)) {
+    throw new ManifestError(manifestPath, ['must be an object with an "images" list']);
+  }
+
+  const issues: string[] = [];
+  const defaultAuthor = validateAuthor(raw.author, 'author', issues);
+  const entries = raw.images.flatMap((entry, index) => validateEntry(entry, index, root, defaultAuthor, issues) ?? []);
+
+  const seen = new Set<string>();
+  for (const entry of entries) {
+    if (seen.has(entry.id)) issues.push(`images: duplicate id "${entry.id}"`);
+    seen.add(entry.id);
+  }
+
+  if (issues.length > 0) throw new ManifestError(manifestPath, issues);
+  return entries;
+}
+
+function orientationOf(width: number, height: number) {
+  if (width === height) return 'squarish';
+  return width > height ? 'landscape' : 'portrait';
+}
+
+export class LocalDirectorySource implements ImageSourceProvider {
+  readonly source = 'local';
+  private readonly root: string;
+  private images: Promise<SourceImage[]> | null = null;
+
+  constructor(dir: string) {
+    this.root = resolve(dir);
+  }
+
+  // The manifest and file headers are read once per run
+  private loadImages() {
+    this.images ??= loadLocalManifest(this.root).then(entries =>
+      Promise.all(entries.map(entry => this.toSourceImage(entry)))
+    );
+    return this.images;
+  }
+
+  private async toSourceImage(entry: LocalEntry): Promise<SourceImage> {
+    const path = resolve(this.root, entry.file);
+    const metadata = await sharp(path).metadata();
+    if (!metadata.width || !metadata.height) {
+      throw new Error(`Could not read image dimensions for ${path}`);
+    }
+    const rotated = QUARTER_TURN_ORIENTATIONS.has(metadata.orientation ?? 1);
+
+    return {
+      sourceId: entry.id,
+      title: entry.title,
+      description: entry.description,
+      width: rotated ? metadata.height : metadata.width,
+      height: rotated ? metadata.width : metadata.height,
+      author: entry.author,
+      likes: null,
+      pageUrl: entry.url,
+      originalUrl: path,
+      // Computed from the pixels once the file has been read for self-hosting
+      dominantColor: null,
+      blurHash: null,
+      tags: entry.tags,
+    };
+  }
+
+  /**
+   * A folder is a single feed - the query only narrows it by orientation
+   */
+  async listImages(query: SourceQuery, page: number, perPage: number): Promise<SourcePage> {
+    const all = await this.loadImages();
+    const matching = query.orientation
+      ? all.filter(image => orientationOf(image.width, image.height) === query.orientation)
+      : all;
+
+    return {
+      images: matching.slice((page - 1) * perPage, page * perPage),
+      totalPages: Math.max(1, Math.ceil(matching.length / perPage)),
+    };
+  }
+
+  // Resizing happens in the variant pipeline, the original is read as-is
+  async fetchOriginal(image: SourceImage): Promise<Buffer> {
+    return readFile(image.originalUrl);
+  }
+
+  // Files on the ingesting machine can't be served from where they are
+  hotlinkUrl(): null {
+    return null;
+  }
+}
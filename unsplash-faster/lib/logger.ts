@@ -0,0 +1,175 @@
+/**
+ * Structured logging shared by server code, scripts and client components
+ *
+ *   const log = createLogger('queries');
+ *   log.debug('Fetched images', { count: 24, category: 'nature' });
+ *
+ * Server: one JSON object per line ({ time, level, ns, msg, requestId, ...fields }), or a
+ * readable line with LOG_FORMAT=pretty (the default in a dev terminal)
+ * Client: nothing unless NEXT_PUBLIC_LOG_LEVEL is set - logging in the browser costs main-thread time
+ *
+ * Levels come from LOG_LEVEL / NEXT_PUBLIC_LOG_LEVEL: a default level, optionally followed by
+ * per-namespace overrides, e.g. LOG_LEVEL=info,queries=debug,ingest=warn
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+type LevelSetting = LogLevel | 'silent';
+
+export type LogNamespace =
+  | 'queries'
+  | 'prefetch'
+  | 'ingest'
+  | 'link'
+  | 'gallery'
+  | 'images'
+  | 'search'
+  | 'unsplash'
+  | 'cache'
+  | 'vitals';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  // Same namespace, with `fields` added to every entry
+  child(fields: LogFields): Logger;
+}
+
+const LEVEL_ORDER: Record<LevelSetting, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+};
+
+const isServer = typeof window === 'undefined';
+
+interface LevelConfig {
+  fallback: LevelSetting;
+  namespaces: Map<string, LevelSetting>;
+}
+
+function isLevelSetting(value: string): value is LevelSetting {
+  return value in LEVEL_ORDER;
+}
+
+function parseLevelConfig(value: string | undefined, fallback: LevelSetting): LevelConfig {
+  const config: LevelConfig = { fallback, namespaces: new Map() };
+
+  for (const part of (value ?? '').split(',')) {
+    const entry = part.trim().toLowerCase();
+    if (!entry) continue;
+
+    const [namespace, level] = entry.includes('=') ? entry.split('=', 2) : [null, entry];
+    if (!isLevelSetting(level)) continue;
+
+    if (namespace) config.namespaces.set(namespace, level);
+    else config.fallback = level;
+  }
+  return config;
+}
+
+// Read on first use rather than at import, so scripts that load .env.local first still see it
+let levels: LevelConfig | undefined;
+
+function levelConfig() {
+  // NEXT_PUBLIC_LOG_LEVEL has to be referenced literally so Next.js inlines it into the client bundle
+  return levels ??= isServer
+    ? parseLevelConfig(process.env.LOG_LEVEL, 'info')
+    : parseLevelConfig(process.env.NEXT_PUBLIC_LOG_LEVEL, 'silent');
+}
+
+function resolveFormat(): 'json' | 'pretty' {
+  const format = process.env.LOG_FORMAT;
+  if (format === 'json' || format === 'pretty') return format;
+  // Log collectors get JSON, a developer's terminal gets something readable
+  const isTerminal = typeof process.stdout?.isTTY === 'boolean' && process.stdout.isTTY;
+  return isTerminal && process.env.NODE_ENV !== 'production' ? 'pretty' : 'json';
+}
+
+let format: 'json' | 'pretty' | undefined;
+
+// Set by lib/request-context on the server - the logger itself stays free of Node-only imports
+let requestIdSource: () => string | undefined = () => undefined;
+
+export function setRequestIdSource(source: () => string | undefined) {
+  requestIdSource = source;
+}
+
+export function isLogLevelEnabled(namespace: LogNamespace, level: LogLevel) {
+  const { namespaces, fallback } = levelConfig();
+  const threshold = namespaces.get(namespace) ?? fallback;
+  return LEVEL_ORDER[level] >= LEVEL_ORDER[threshold];
+}
+
+// Errors don't survive JSON.stringify - keep what's useful
+function serializeValue(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+function serializeFields(fields: LogFields) {
+  const serialized: LogFields = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) serialized[key] = serializeValue(value);
+  }
+  return serialized;
+}
+
+function formatPretty(level: LogLevel, namespace: string, message: string, fields: LogFields) {
+  const time = new Date().toISOString().slice(11, 23);
+  const details = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      if (value instanceof Error) return `${key}=${value.stack ?? value.message}`;
+      return `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`;
+    })
+    .join(' ');
+  return `${time} ${level.toUpperCase().padEnd(5)} [${namespace}] ${message}${details ? ` ${details}` : ''}`;
+}
+
+function write(level: LogLevel, namespace: LogNamespace, message: string, fields: LogFields) {
+  const output = level === 'error' ? console.error : level === 'warn' ? console.warn : console.log;
+
+  if (!isServer) {
+    output(`[${namespace}] ${message}`, ...(Object.keys(fields).length > 0 ? [fields] : []));
+    return;
+  }
+
+  const requestId = requestIdSource();
+  const context = requestId ? { requestId, ...fields } : fields;
+
+  if ((format ??= resolveFormat()) === 'pretty') {
+    output(formatPretty(level, namespace, message, context));
+    return;
+  }
+
+  output(JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    ns: namespace,
+    msg: message,
+    ...serializeFields(context),
+  }));
+}
+
+export function createLogger(namespace: LogNamespace, bound: LogFields = {}): Logger {
+  const log = (level: LogLevel) => (message: string, fields?: LogFields) => {
+    if (!isLogLevelEnabled(namespace, level)) return;
+    write(level, namespace, message, fields ? { ...bound, ...fields } : bound);
+  };
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    child: (fields) => createLogger(namespace, { ...bound, ...fields }),
+  };
+}
@@ -0,0 +1,151 @@
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { deflateSync } from 'zlib';
+import { decode, encode, isBlurhashValid } from 'blurhash';
+import sharp from 'sharp';
+
+/**
+ * Low-quality image placeholders: a BlurHash plus a dominant colour per image
+ * Stored on `images` and turned into a tiny data URL for next/image's placeholder="blur"
+ */
+
+export interface ImagePlaceholder {
+  blurHash: string | null;
+  dominantColor: string | null;
+}
+
+// Longest side of the decoded placeholder - next/image blurs it up to size anyway
+const PLACEHOLDER_SIZE = 8;
+// Pixels sampled when computing a BlurHash from an image
+const ENCODE_SIZE = 32;
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+function crc32(buffer: Buffer) {
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer) {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+// Minimal RGB PNG encoder - a few dozen pixels don't justify a round trip through sharp
+function encodePng(rgba: Uint8ClampedArray, width: number, height: number) {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // colour type: RGB
+
+  // Each scanline starts with filter type 0 (none), alpha is dropped
+  const rowLength = width * 3 + 1;
+  const raw = Buffer.alloc(rowLength * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const source = (y * width + x) * 4;
+      const target = y * rowLength + 1 + x * 3;
+      raw[target] = rgba[source];
+      raw[target + 1] = rgba[source + 1];
+      raw[target + 2] = rgba[source + 2];
+    }
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+}
+
+function placeholderDimensions(width: number, height: number) {
+  if (width <= 0 || height <= 0) return { width: PLACEHOLDER_SIZE, height: PLACEHOLDER_SIZE };
+
+  const scale = PLACEHOLDER_SIZE / Math.max(width, height);
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * Decodes a BlurHash into a PNG data URL a few pixels across, keeping the image's aspect ratio
+ */
+export function blurHashToDataUrl(blurHash: string, width: number, height: number): string | null {
+  if (!isBlurhashValid(blurHash).result) return null;
+
+  const size = placeholderDimensions(width, height);
+  const pixels = decode(blurHash, size.width, size.height);
+  return `data:image/png;base64,${encodePng(pixels, size.width, size.height).toString('base64')}`;
+}
+
+function solidColorDataUrl(color: string) {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1" height="1"><rect width="1" height="1" fill="${color}"/></svg>`;
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+}
+
+/**
+ * blurDataURL for an image row: the decoded BlurHash, else a flat dominant colour, else nothing
+ */
+export function placeholderDataUrl(image: ImagePlaceholder & { width: number; height: number }): string | null {
+  if (image.blurHash) {
+    const dataUrl = blurHashToDataUrl(image.blurHash, image.width, image.height);
+    if (dataUrl) return dataUrl;
+  }
+  if (image.dominantColor && HEX_COLOR_PATTERN.test(image.dominantColor)) {
+    return solidColorDataUrl(image.dominantColor);
+  }
+  return null;
+}
+
+function toHex(value: number) {
+  return Math.round(value).toString(16).padStart(2, '0');
+}
+
+/**
+ * Computes the same placeholder Unsplash provides, from the image's own pixels
+ * Used for local uploads and for rows Unsplash can no longer describe
+ */
+export async function computePlaceholder(input: Buffer): Promise<ImagePlaceholder> {
+  const image = sharp(input).rotate(); // honour EXIF orientation
+
+  const { data, info } = await image
+    .clone()
+    .resize(ENCODE_SIZE, ENCODE_SIZE, { fit: 'inside' })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  // More horizontal components for landscape images, more vertical for portrait
+  const landscape = info.width >= info.height;
+  const blurHash = encode(new Uint8ClampedArray(data), info.width, info.height, landscape ? 4 : 3, landscape ? 3 : 4);
+
+  const { dominant } = await image.stats();
+  const dominantColor = `#${toHex(dominant.r)}${toHex(dominant.g)}${toHex(dominant.b)}`;
+
+  return { blurHash, dominantColor };
+}
+
+/**
+ * Placeholder for an image served from public/ (imageUrl like "/images/photo.png")
+ */
+export async function computeLocalPlaceholder(publicUrl: string): Promise<ImagePlaceholder> {
+  const file = await readFile(join(process.cwd(), 'public', publicUrl));
+  return computePlaceholder(file);
+}
@@ -1,85 +1,169 @@
-import { unstable_cache } from '@/features/performance/lib/cache';
+import { CACHE_TAGS, unstable_cache } from '@/features/performance/lib/cache';
 import { db } from './db';
-import { categories, images } from './schema';
-import { eq, count, sql } from 'drizzle-orm';
-import type { Category, Image } from './schema';
-
-interface ImageWithCategory extends Image {
+import { categories, imageColumns, images, imageTags, tags } from './schema';
+import { and, asc, desc, eq, count, gte, isNotNull, ne, or, sql, type SQL } from 'drizzle-orm';
+import type { Category, Image, Tag } from './schema';
+import { cursorKey, DEFAULT_PAGE_SIZE, encodeCursor, type ImageCursor } from '@/features/gallery/lib/pagination';
+import { HIGHLIGHT_START, HIGHLIGHT_STOP } from '@/features/search/lib/highlight';
+import {
+  MIN_LIKES_OPTIONS,
+  ORIENTATIONS,
+  searchFiltersKey,
+  type Orientation,
+  type SearchFilters,
+} from '@/features/search/lib/filters';
+import type { SearchSuggestion } from '@/features/search/lib/suggestions';
+import { placeholderDataUrl } from './placeholders';
+import { createLogger } from './logger';
+
+// These only run on a cache miss, so each line is one trip to Postgres
+const log = createLogger('queries');
+
+export interface ImageWithCategory extends Image {
   category: Category;
+  // Tiny decoded BlurHash (or flat dominant colour) for next/image placeholder="blur"
+  blurDataUrl: string | null;
+}
+
+export interface ImagesPage {
+  images: ImageWithCategory[];
+  nextCursor: string | null;
+}
+
+const UNKNOWN_CATEGORY: Category = {
+  id: 0,
+  name: 'Unknown',
+  slug: 'unknown',
+  createdAt: null,
+};
+
+// Placeholders are decoded here so the result is cached with the rows
+function withCategory(image: Image, category: Category | null): ImageWithCategory {
+  return {
+    ...image,
+    category: category ?? UNKNOWN_CATEGORY,
+    blurDataUrl: placeholderDataUrl(image),
+  };
 }
 
 // NextFaster's exact query caching patterns with 2-hour revalidation
 
 export const getCategories = unstable_cache(
   async (): Promise<Category[]> => {
-    console.log('🔍 Fetching categories from database...');
-    return await db.select().from(categories);
+    const allCategories = await db.select().from(categories);
+    log.debug('Fetched categories', { count: allCategories.length });
+    return allCategories;
   },
   ['categories'],
   {
     revalidate: 60 * 60 * 2, // 2 hours
+    tags: [CACHE_TAGS.categories],
   }
 );
 
-export const getImages = unstable_cache(
-  async (categorySlug?: string): Promise<Image[]> => {
-    console.log(`🔍 Fetching images from database${categorySlug ? ` for category: ${categorySlug}` : ' (all images)'}...`);
+interface ImagesPageScope {
+  categorySlug?: string;
+  tagSlug?: string;
+  photographerId?: string;
+}
 
-    let dbImages: Image[];
+// Keyset pagination ordered newest first on (createdAt, id), shared by every paginated image listing
+async function selectImagesPage(scope: ImagesPageScope, after: ImageCursor | null | undefined, limit: number): Promise<ImagesPage> {
+  const conditions: SQL[] = [];
 
-    if (!categorySlug) {
-      console.log('📊 Querying all images from database...');
-      dbImages = await db.select().from(images);
-    } else {
-      console.log(`📊 Querying images for category: ${categorySlug}...`);
-      // Get category by slug first
-      const categoryResults = await db.select().from(categories).where(eq(categories.slug, categorySlug));
+  if (scope.categorySlug) {
+    conditions.push(eq(categories.slug, scope.categorySlug));
+  }
+  if (scope.tagSlug) {
+    conditions.push(eq(tags.slug, scope.tagSlug));
+  }
+  if (scope.photographerId) {
+    conditions.push(eq(images.authorId, scope.photographerId));
+  }
+  if (after) {
+    conditions.push(sql`(${images.createdAt}, ${images.id}) < (${after.createdAt}::timestamp, ${after.id})`);
+  }
 
-      if (categoryResults.length === 0) {
-        console.log(`❌ Category ${categorySlug} not found`);
-        return [];
-      }
+  let query = db
+    .select({
+      image: imageColumns,
+      category: categories,
+      cursorCreatedAt: sql<string>`${images.createdAt}::text`,
+    })
+    .from(images)
+    .leftJoin(categories, eq(images.categoryId, categories.id))
+    .$dynamic();
+
+  if (scope.tagSlug) {
+    query = query
+      .innerJoin(imageTags, eq(imageTags.imageId, images.id))
+      .innerJoin(tags, eq(tags.id, imageTags.tagId));
+  }
 
-      const category = categoryResults[0];
-      dbImages = await db.select().from(images).where(eq(images.categoryId, category.id));
-    }
+  // Fetch one extra row to know whether another page exists
+  const rows = await query
+    .where(and(...conditions))
+    .orderBy(desc(images.createdAt), desc(images.id))
+    .limit(limit + 1);
+
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+  const lastRow = pageRows[pageRows.length - 1];
+
+  return {
+    images: pageRows.map(({ image, category }) => withCategory(image, category)),
+    nextCursor: hasMore && lastRow
+      ? encodeCursor({ createdAt: lastRow.cursorCreatedAt, id: lastRow.image.id })
+      : null,
+  };
+}
 
-    console.log(`📈 Found ${dbImages.length} images in database`);
-    return dbImages;
+// Category filtering happens in SQL and every page gets its own cache entry
+export const getImages = unstable_cache(
+  async (categorySlug?: string, cursor?: ImageCursor | null, limit: number = DEFAULT_PAGE_SIZE): Promise<ImagesPage> => {
+    const page = await selectImagesPage({ categorySlug }, cursor, limit);
+
+    log.debug('Fetched image page', {
+      category: categorySlug ?? 'all',
+      cursor: cursorKey(cursor),
+      count: page.images.length,
+      hasMore: page.nextCursor !== null,
+    });
+    return page;
   },
-  (categorySlug?: string) => ['images', categorySlug || 'all'], // Dynamic cache key
+  (categorySlug?: string, cursor?: ImageCursor | null, limit: number = DEFAULT_PAGE_SIZE) => [
+    'images',
+    categorySlug || 'all',
+    cursorKey(cursor),
+    limit.toString(),
+  ],
   {
     revalidate: 60 * 60 * 2, // 2 hours
+    tags: (categorySlug?: string) => categorySlug ? [CACHE_TAGS.category(categorySlug)] : [CACHE_TAGS.images],
   }
 );
 
 export const getImage = unstable_cache(
   async (id: number): Promise<Image | null> => {
-    console.log(`🔍 Fetching image ${id} from database...`);
-
-    const results = await db.select().from(images).where(eq(images.id, id));
-    if (results.length === 0) return null;
-
-    const image = results[0];
-    console.log(`✅ Found image: ${image.title}`);
-    return image;
+    const results = await db.select(imageColumns).from(images).where(eq(images.id, id));
+    log.debug('Fetched image', { id, found: results.length > 0 });
+    return results[0] ?? null;
   },
   (id: number) => ['image', id.toString()],
   {
     revalidate: 60 * 60 * 2, // 2 hours
+    tags: [CACHE_TAGS.images],
   }
 );
 
 export const getImageCount = unstable_cache(
   async (categorySlug?: string): Promise<number> => {
     if (!categorySlug) {
-      console.log('📊 Counting ALL images using database COUNT...');
       const result = await db.select({ count: count() }).from(images);
       const totalCount = result[0].count;
-      console.log(`✅ Total images: ${totalCount}`);
+      log.debug('Counted images', { category: 'all', count: totalCount });
       return totalCount;
     } else {
-      console.log(`📊 Counting images for category: ${categorySlug} using JOIN + COUNT...`);
       // JOIN with categories table for filtered count
       const result = await db
         .select({ count: count() })
@@ -87,28 +171,25 @@ export const getImageCount = unstable_cache(
         .leftJoin(categories, eq(images.categoryId, categories.id))
         .where(eq(categories.slug, categorySlug));
       const categoryCount = result[0].count;
-      console.log(`✅ Images in ${categorySlug}: ${categoryCount}`);
+      log.debug('Counted images', { category: categorySlug, count: categoryCount });
       return categoryCount;
     }
   },
   (categorySlug?: string) => ['image-count', categorySlug || 'all'],
   {
     revalidate: 60 * 60 * 2, // 2 hours
+    tags: (categorySlug?: string) => categorySlug ? [CACHE_TAGS.category(categorySlug)] : [CACHE_TAGS.images],
   }
 );
 
 // Get categories with image counts
 export const getCategoriesWithCounts = unstable_cache(
   async (): Promise<Array<Category & { imageCount: number }>> => {
-    console.log('🏷️ Fetching categories with image counts...');
-
     // First get all categories
     const allCategories = await db.select().from(categories);
-    console.log(`📂 Found ${allCategories.length} categories`);
 
     // Then get all images with their category IDs
     const allImages = await db.select({ categoryId: images.categoryId }).from(images);
-    console.log(`📸 Found ${allImages.length} images`);
 
     // Count images per category
     const categoriesWithCounts = allCategories.map(category => {
@@ -119,57 +200,26 @@ export const getCategoriesWithCounts = unstable_cache(
       };
     });
 
-    console.log('📊 Categories with counts:', categoriesWithCounts.map(cat => `${cat.name}: ${cat.imageCount}`));
+    log.debug('Fetched categories with counts', {
+      counts: Object.fromEntries(categoriesWithCounts.map(cat => [cat.slug, cat.imageCount])),
+    });
     return categoriesWithCounts;
   },
   ['categories-with-counts'],
   {
     revalidate: 60 * 60 * 2, // 2 hours
+    tags: [CACHE_TAGS.categories, CACHE_TAGS.images],
   }
 );
 
-// Get all images with category information (simplified approach) - CACHE DISABLED FOR DEBUG
-export const getAllImages = async (): Promise<ImageWithCategory[]> => {
-    console.log('🔍 Fetching all images with categories from database...');
-
-    // First get all images
-    const allImages = await db.select().from(images);
-    console.log(`📈 Found ${allImages.length} images`);
-
-    // Then get all categories
-    const allCategories = await db.select().from(categories);
-    console.log(`📂 Found ${allCategories.length} categories`);
-
-    // Create category lookup map
-    const categoryMap = allCategories.reduce((map, cat) => {
-      map[cat.id] = cat;
-      return map;
-    }, {} as Record<number, Category>);
-
-    // Combine images with their categories
-    const imagesWithCategories: ImageWithCategory[] = allImages.map(image => ({
-      ...image,
-      category: categoryMap[image.categoryId] || {
-        id: 0,
-        name: 'Unknown',
-        slug: 'unknown'
-      }
-    }));
-
-    console.log(`✅ Successfully combined ${imagesWithCategories.length} images with categories`);
-    return imagesWithCategories;
-};
-
-// Get image by Unsplash ID with category information (simplified approach)
+// Get image by public ID (see publicIdFor in lib/image-source.ts) with category information
 export const getImageById = unstable_cache(
-  async (unsplashId: string): Promise<ImageWithCategory | null> => {
-    console.log(`🔍 Fetching image ${unsplashId} with category from database...`);
-
+  async (publicId: string): Promise<ImageWithCategory | null> => {
     // Get the image
-    const imageResults = await db.select().from(images).where(eq(images.unsplashId, unsplashId));
+    const imageResults = await db.select(imageColumns).from(images).where(eq(images.publicId, publicId));
 
     if (imageResults.length === 0) {
-      console.log(`❌ Image ${unsplashId} not found`);
+      log.debug('Image not found', { publicId });
       return null;
     }
 
@@ -177,84 +227,588 @@ export const getImageById = unstable_cache(
 
     // Get the category
     const categoryResults = await db.select().from(categories).where(eq(categories.id, image.categoryId));
-    const category = categoryResults.length > 0 ? categoryResults[0] : {
-      id: 0,
-      name: 'Unknown',
-      slug: 'unknown'
-    };
+    const category = categoryResults.length > 0 ? categoryResults[0] : UNKNOWN_CATEGORY;
 
-    const imageWithCategory: ImageWithCategory = {
-      ...image,
-      category
-    };
+    const imageWithCategory = withCategory(image, category);
 
-    console.log(`✅ Found image: ${imageWithCategory.title}`);
+    log.debug('Fetched image', { publicId });
     return imageWithCategory;
   },
-  (unsplashId: string) => ['image-by-unsplash-id', unsplashId],
+  (publicId: string) => ['image-by-public-id', publicId],
   {
     revalidate: 60 * 60 * 2, // 2 hours
+    tags: (publicId: string) => [CACHE_TAGS.image(publicId), CACHE_TAGS.categories],
   }
 );
 
+export interface SearchResult extends ImageWithCategory {
+  // Matching fragment of the description with hits wrapped in highlight markers
+  headline: string | null;
+}
+
+export interface SearchResultsPage {
+  results: SearchResult[];
+  page: number;
+  hasMore: boolean;
+}
+
+export interface FacetCount<Value> {
+  value: Value;
+  label: string;
+  count: number;
+}
+
+// Each facet is counted with every other active filter applied, but not its own,
+// so users can see what switching a filter would give them
+export interface SearchFacets {
+  categories: FacetCount<string>[];
+  orientations: FacetCount<Orientation>[];
+  photographers: FacetCount<string>[];
+  minLikes: FacetCount<number>[];
+}
+
+const SEARCH_PAGE_SIZE = 24;
+const PHOTOGRAPHER_FACET_LIMIT = 10;
+const HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxWords=30, MinWords=12, MaxFragments=2`;
+
+// Anything within 5% of 1:1 counts as square
+const orientationSql = sql<Orientation>`CASE
+  WHEN ${images.width} > ${images.height} * 1.05 THEN 'landscape'
+  WHEN ${images.height} > ${images.width} * 1.05 THEN 'portrait'
+  ELSE 'square'
+END`;
+
+interface SearchMatch {
+  where: SQL;
+  orderBy: SQL;
+  headline: SQL<string | null>;
+}
+
+// Escape LIKE wildcards so user input only ever matches literally
+function escapeLike(term: string): string {
+  return term.replace(/[\\%_]/g, (match) => `\\${match}`);
+}
+
+// Title ILIKE ranked by trigram similarity, served by images_title_trgm_idx
+function titleMatch(term: string, pattern: string): SearchMatch {
+  return {
+    where: sql`${images.title} ILIKE ${pattern}`,
+    orderBy: desc(sql`similarity(${images.title}, ${term})`),
+    headline: sql<string | null>`NULL`,
+  };
+}
+
+// Ranked against the stored search_vector (GIN) with a highlighted snippet
+function fullTextMatch(formattedSearchTerm: string): SearchMatch {
+  const tsQuery = sql`to_tsquery('english', ${formattedSearchTerm})`;
+
+  return {
+    where: sql`${images.searchVector} @@ ${tsQuery}`,
+    orderBy: desc(sql`ts_rank_cd(${images.searchVector}, ${tsQuery})`),
+    headline: sql<string | null>`ts_headline('english', coalesce(${images.description}, ${images.title}), ${tsQuery}, ${HEADLINE_OPTIONS})`,
+  };
+}
+
 // NextFaster search functionality with hybrid approach
-export const searchImages = unstable_cache(
-  async (searchTerm: string): Promise<Image[]> => {
-    console.log(`🔍 Searching images for: "${searchTerm}"`);
+function searchMatchFor(trimmedTerm: string): SearchMatch {
+  if (trimmedTerm.length <= 2) {
+    // For short terms, use ILIKE for prefix matching (NextFaster approach)
+    return titleMatch(trimmedTerm, `${escapeLike(trimmedTerm)}%`);
+  }
+
+  // For longer terms, use PostgreSQL full-text search (NextFaster approach)
+  // Format search term for tsquery (add :* for prefix matching on each word)
+  // tsquery operators are stripped so user input can't produce a syntax error
+  const formattedSearchTerm = trimmedTerm
+    .split(/\s+/)
+    .map(term => term.replace(/[^\p{L}\p{N}]/gu, ''))
+    .filter(term => term !== '')
+    .map(term => `${term}:*`)
+    .join(' & ');
+
+  if (!formattedSearchTerm) {
+    return titleMatch(trimmedTerm, `%${escapeLike(trimmedTerm)}%`);
+  }
+
+  return fullTextMatch(formattedSearchTerm);
+}
 
+// SQL conditions for the active filters, optionally leaving one out for its own facet
+function filterConditions(filters: SearchFilters, except?: keyof SearchFilters): SQL[] {
+  const conditions: SQL[] = [];
+
+  if (filters.category && except !== 'category') {
+    conditions.push(eq(categories.slug, filters.category));
+  }
+  if (filters.orientation && except !== 'orientation') {
+    conditions.push(sql`${orientationSql} = ${filters.orientation}`);
+  }
+  if (filters.photographer && except !== 'photographer') {
+    // Case-insensitive, like the filters' cache key
+    conditions.push(sql`lower(${images.authorName}) = lower(${filters.photographer})`);
+  }
+  if (filters.minLikes && except !== 'minLikes') {
+    conditions.push(gte(images.likes, filters.minLikes));
+  }
+
+  return conditions;
+}
+
+export const searchImages = unstable_cache(
+  async (searchTerm: string, page: number = 1, filters: SearchFilters = {}): Promise<SearchResultsPage> => {
     if (!searchTerm || searchTerm.trim().length === 0) {
-      console.log('❌ Empty search term');
-      return [];
+      return { results: [], page, hasMore: false };
     }
 
     const trimmedTerm = searchTerm.trim();
-    let searchResults: Image[];
+    const offset = (Math.max(page, 1) - 1) * SEARCH_PAGE_SIZE;
+
+    const runSearch = (match: SearchMatch) => db
+      .select({
+        image: imageColumns,
+        category: categories,
+        headline: match.headline,
+      })
+      .from(images)
+      .leftJoin(categories, eq(images.categoryId, categories.id))
+      .where(and(match.where, ...filterConditions(filters)))
+      .orderBy(match.orderBy, desc(images.id))
+      .limit(SEARCH_PAGE_SIZE + 1)
+      .offset(offset);
+
+    let rows: Awaited<ReturnType<typeof runSearch>>;
+    try {
+      rows = await runSearch(searchMatchFor(trimmedTerm));
+    } catch (error) {
+      log.warn('Full-text search failed, falling back to ILIKE', { term: trimmedTerm, error });
+      // Fallback to ILIKE if full-text search fails
+      rows = await runSearch(titleMatch(trimmedTerm, `%${escapeLike(trimmedTerm)}%`));
+    }
 
-    if (trimmedTerm.length <= 2) {
-      // For short terms, use ILIKE for prefix matching (NextFaster approach)
-      console.log(`📝 Using ILIKE prefix search for short term: "${trimmedTerm}"`);
-      searchResults = await db
-        .select()
-        .from(images)
-        .where(sql`${images.title} ILIKE ${trimmedTerm + "%"}`)
-        .limit(20);
-    } else {
-      // For longer terms, use PostgreSQL full-text search (NextFaster approach)
-      console.log(`🔍 Using full-text search for term: "${trimmedTerm}"`);
+    const hasMore = rows.length > SEARCH_PAGE_SIZE;
+    const results = (hasMore ? rows.slice(0, SEARCH_PAGE_SIZE) : rows).map(({ image, category, headline }) => ({
+      ...withCategory(image, category),
+      headline,
+    }));
 
-      // Format search term for tsquery (add :* for prefix matching on each word)
-      const formattedSearchTerm = trimmedTerm
-        .split(' ')
-        .filter(term => term.trim() !== '')
-        .map(term => `${term}:*`)
-        .join(' & ');
+    log.debug('Searched images', {
+      term: trimmedTerm,
+      page,
+      filters: searchFiltersKey(filters),
+      count: results.length,
+      hasMore,
+    });
+    return { results, page, hasMore };
+  },
+  (searchTerm: string, page: number = 1, filters: SearchFilters = {}) => [
+    'search-results',
+    searchTerm.toLowerCase().trim(),
+    page.toString(),
+    searchFiltersKey(filters),
+  ],
+  {
+    revalidate: 60 * 60 * 2, // 2 hours cache
+    tags: [CACHE_TAGS.images],
+  }
+);
+
+export const getSearchFacets = unstable_cache(
+  async (searchTerm: string, filters: SearchFilters = {}): Promise<SearchFacets> => {
+    const trimmedTerm = searchTerm.trim();
+    if (!trimmedTerm) {
+      return { categories: [], orientations: [], photographers: [], minLikes: [] };
+    }
 
-      console.log(`🔍 Formatted search term: "${formattedSearchTerm}"`);
+    const runFacets = (match: SearchMatch) => {
+      const scoped = (except: keyof SearchFilters) => and(match.where, ...filterConditions(filters, except));
 
-      try {
-        searchResults = await db
-          .select()
+      return Promise.all([
+        db
+          .select({ value: categories.slug, label: categories.name, count: count() })
+          .from(images)
+          .innerJoin(categories, eq(images.categoryId, categories.id))
+          .where(scoped('category'))
+          .groupBy(categories.id)
+          .orderBy(desc(count()), categories.name),
+        db
+          .select({ value: orientationSql, count: count() })
+          .from(images)
+          .leftJoin(categories, eq(images.categoryId, categories.id))
+          .where(scoped('orientation'))
+          .groupBy(orientationSql),
+        db
+          .select({ value: images.authorName, count: count() })
           .from(images)
-          .where(
-            sql`to_tsvector('english', ${images.title} || ' ' || COALESCE(${images.description}, '')) @@ to_tsquery('english', ${formattedSearchTerm})`
-          )
-          .limit(20);
-      } catch (error) {
-        console.error('❌ Full-text search failed, falling back to ILIKE:', error);
-        // Fallback to ILIKE if full-text search fails
-        searchResults = await db
-          .select()
+          .leftJoin(categories, eq(images.categoryId, categories.id))
+          .where(and(scoped('photographer'), isNotNull(images.authorName)))
+          .groupBy(images.authorName)
+          .orderBy(desc(count()), images.authorName)
+          .limit(PHOTOGRAPHER_FACET_LIMIT),
+        // One pass over the matches counts every likes threshold at once
+        db
+          .select(Object.fromEntries(MIN_LIKES_OPTIONS.map(threshold => [
+            threshold.toString(),
+            sql<number>`count(*) filter (where ${images.likes} >= ${threshold})`.mapWith(Number),
+          ])))
           .from(images)
-          .where(sql`${images.title} ILIKE ${'%' + trimmedTerm + '%'}`)
-          .limit(20);
-      }
+          .leftJoin(categories, eq(images.categoryId, categories.id))
+          .where(scoped('minLikes')),
+      ]);
+    };
+
+    let facetRows: Awaited<ReturnType<typeof runFacets>>;
+    try {
+      facetRows = await runFacets(searchMatchFor(trimmedTerm));
+    } catch (error) {
+      log.warn('Full-text facets failed, falling back to ILIKE', { term: trimmedTerm, error });
+      // Same fallback as searchImages, so the facets describe the results shown
+      facetRows = await runFacets(titleMatch(trimmedTerm, `%${escapeLike(trimmedTerm)}%`));
     }
 
-    console.log(`📈 Found ${searchResults.length} search results`);
-    return searchResults;
+    const [categoryRows, orientationRows, photographerRows, [likesRow]] = facetRows;
+    const orientationCounts = new Map(orientationRows.map(row => [row.value, row.count]));
+
+    return {
+      categories: categoryRows,
+      orientations: ORIENTATIONS.map(value => ({
+        value,
+        label: value.charAt(0).toUpperCase() + value.slice(1),
+        count: orientationCounts.get(value) ?? 0,
+      })),
+      photographers: photographerRows.map(row => ({
+        value: row.value!,
+        label: row.value!,
+        count: row.count,
+      })),
+      minLikes: MIN_LIKES_OPTIONS.map(threshold => ({
+        value: threshold,
+        label: `${threshold}+ likes`,
+        count: likesRow?.[threshold.toString()] ?? 0,
+      })),
+    };
+  },
+  (searchTerm: string, filters: SearchFilters = {}) => [
+    'search-facets',
+    searchTerm.toLowerCase().trim(),
+    searchFiltersKey(filters),
+  ],
+  {
+    revalidate: 60 * 60 * 2, // 2 hours cache
+    tags: [CACHE_TAGS.images],
+  }
+);
+
+const SUGGESTIONS_PER_TYPE = { image: 5, category: 3, photographer: 3 };
+
+// Search-as-you-type: matching titles, categories and photographers, best trigram match first
+export const getSearchSuggestions = unstable_cache(
+  async (searchTerm: string): Promise<SearchSuggestion[]> => {
+    const trimmedTerm = searchTerm.trim();
+    if (!trimmedTerm) return [];
+
+    const pattern = `%${escapeLike(trimmedTerm)}%`;
+
+    const titleRows = await db
+      .select({ title: images.title, publicId: images.publicId })
+      .from(images)
+      .where(sql`${images.title} ILIKE ${pattern}`)
+      .orderBy(desc(sql`similarity(${images.title}, ${trimmedTerm})`), desc(images.id))
+      .limit(SUGGESTIONS_PER_TYPE.image);
+
+    const categoryRows = await db
+      .select({ name: categories.name, slug: categories.slug })
+      .from(categories)
+      .where(sql`${categories.name} ILIKE ${pattern}`)
+      .orderBy(categories.name)
+      .limit(SUGGESTIONS_PER_TYPE.category);
+
+    const photographerRows = await db
+      .selectDistinct({ id: images.authorId, name: images.authorName })
+      .from(images)
+      .where(and(sql`${images.authorName} ILIKE ${pattern}`, isNotNull(images.authorId)))
+      .orderBy(images.authorName)
+      .limit(SUGGESTIONS_PER_TYPE.photographer);
+
+    return [
+      ...titleRows.map((row): SearchSuggestion => ({
+        type: 'image',
+        label: row.title,
+        href: `/image/${row.publicId}`,
+      })),
+      ...categoryRows.map((row): SearchSuggestion => ({
+        type: 'category',
+        label: row.name,
+        href: `/?category=${encodeURIComponent(row.slug)}`,
+      })),
+      ...photographerRows.map((row): SearchSuggestion => ({
+        type: 'photographer',
+        label: row.name!,
+        href: `/photographer/${encodeURIComponent(row.id!)}`,
+      })),
+    ];
   },
-  (searchTerm: string) => ['search-results', searchTerm.toLowerCase().trim()],
+  (searchTerm: string) => ['search-suggestions', searchTerm.toLowerCase().trim()],
   {
     revalidate: 60 * 60 * 2, // 2 hours cache
+    tags: [CACHE_TAGS.images],
+  }
+);
+
+export interface TagWithCount extends Tag {
+  imageCount: number;
+}
+
+// Tags ordered by how many images use them; unused tags are left out
+export const getTagsWithCounts = unstable_cache(
+  async (limit?: number): Promise<TagWithCount[]> => {
+    const query = db
+      .select({
+        id: tags.id,
+        name: tags.name,
+        slug: tags.slug,
+        createdAt: tags.createdAt,
+        imageCount: count(imageTags.imageId),
+      })
+      .from(tags)
+      .innerJoin(imageTags, eq(imageTags.tagId, tags.id))
+      .groupBy(tags.id)
+      .orderBy(desc(count(imageTags.imageId)), tags.name)
+      .$dynamic();
+
+    const tagsWithCounts = limit ? await query.limit(limit) : await query;
+
+    log.debug('Fetched tags with counts', { limit, count: tagsWithCounts.length });
+    return tagsWithCounts;
+  },
+  (limit?: number) => ['tags-with-counts', limit ? limit.toString() : 'all'],
+  {
+    revalidate: 60 * 60 * 2, // 2 hours
+    tags: [CACHE_TAGS.images],
+  }
+);
+
+export const getTagBySlug = unstable_cache(
+  async (slug: string): Promise<Tag | null> => {
+    const results = await db.select().from(tags).where(eq(tags.slug, slug));
+    return results[0] ?? null;
+  },
+  (slug: string) => ['tag', slug],
+  {
+    revalidate: 60 * 60 * 2, // 2 hours
+    tags: [CACHE_TAGS.images],
+  }
+);
+
+// Paginated the same way as getImages so the tag page can reuse infinite scroll
+export const getImagesByTag = unstable_cache(
+  async (tagSlug: string, cursor?: ImageCursor | null, limit: number = DEFAULT_PAGE_SIZE): Promise<ImagesPage> => {
+    const page = await selectImagesPage({ tagSlug }, cursor, limit);
+
+    log.debug('Fetched image page', {
+      tag: tagSlug,
+      cursor: cursorKey(cursor),
+      count: page.images.length,
+      hasMore: page.nextCursor !== null,
+    });
+    return page;
+  },
+  (tagSlug: string, cursor?: ImageCursor | null, limit: number = DEFAULT_PAGE_SIZE) => [
+    'images-by-tag',
+    tagSlug,
+    cursorKey(cursor),
+    limit.toString(),
+  ],
+  {
+    revalidate: 60 * 60 * 2, // 2 hours
+    tags: [CACHE_TAGS.images],
   }
-);
\ No newline at end of file
+);
+
+export const getTagsForImage = unstable_cache(
+  async (imageId: number): Promise<Tag[]> => {
+    return await db
+      .select({
+        id: tags.id,
+        name: tags.name,
+        slug: tags.slug,
+        createdAt: tags.createdAt,
+      })
+      .from(imageTags)
+      .innerJoin(tags, eq(tags.id, imageTags.tagId))
+      .where(eq(imageTags.imageId, imageId))
+      .orderBy(tags.name);
+  },
+  (imageId: number) => ['image-tags', imageId.toString()],
+  {
+    revalidate: 60 * 60 * 2, // 2 hours
+    tags: [CACHE_TAGS.images],
+  }
+);
+
+export interface Photographer {
+  id: string;
+  name: string;
+  imageCount: number;
+  totalLikes: number;
+}
+
+// Photographers are not a table of their own - they are aggregated from their images
+export const getPhotographer = unstable_cache(
+  async (photographerId: string): Promise<Photographer | null> => {
+    const [row] = await db
+      .select({
+        name: sql<string | null>`max(${images.authorName})`,
+        imageCount: count(),
+        totalLikes: sql<number>`coalesce(sum(${images.likes}), 0)`.mapWith(Number),
+      })
+      .from(images)
+      .where(eq(images.authorId, photographerId));
+
+    if (!row || row.imageCount === 0) {
+      log.debug('Photographer not found', { photographerId });
+      return null;
+    }
+
+    return {
+      id: photographerId,
+      name: row.name || 'Unknown',
+      imageCount: row.imageCount,
+      totalLikes: row.totalLikes,
+    };
+  },
+  (photographerId: string) => ['photographer', photographerId],
+  {
+    revalidate: 60 * 60 * 2, // 2 hours
+    tags: [CACHE_TAGS.images],
+  }
+);
+
+// Paginated the same way as getImages so the photographer page can reuse infinite scroll
+export const getImagesByPhotographer = unstable_cache(
+  async (photographerId: string, cursor?: ImageCursor | null, limit: number = DEFAULT_PAGE_SIZE): Promise<ImagesPage> => {
+    const page = await selectImagesPage({ photographerId }, cursor, limit);
+
+    log.debug('Fetched image page', {
+      photographer: photographerId,
+      cursor: cursorKey(cursor),
+      count: page.images.length,
+      hasMore: page.nextCursor !== null,
+    });
+    return page;
+  },
+  (photographerId: string, cursor?: ImageCursor | null, limit: number = DEFAULT_PAGE_SIZE) => [
+    'images-by-photographer',
+    photographerId,
+    cursorKey(cursor),
+    limit.toString(),
+  ],
+  {
+    revalidate: 60 * 60 * 2, // 2 hours
+    tags: [CACHE_TAGS.images],
+  }
+);
+
+export interface ImageLink {
+  publicId: string;
+  title: string;
+}
+
+export interface AdjacentImages {
+  previous: ImageLink | null;
+  next: ImageLink | null;
+}
+
+// Neighbours in the gallery's own order (newest first) within the image's category
+export const getAdjacentImages = unstable_cache(
+  async (imageId: number): Promise<AdjacentImages> => {
+    const [current] = await db
+      .select({ categoryId: images.categoryId })
+      .from(images)
+      .where(eq(images.id, imageId));
+
+    if (!current) return { previous: null, next: null };
+
+    const position = sql`(select ${images.createdAt}, ${images.id} from ${images} where ${images.id} = ${imageId})`;
+    const sameCategory = current.categoryId === null
+      ? sql`${images.categoryId} is null`
+      : eq(images.categoryId, current.categoryId);
+
+    const [previous] = await db
+      .select({ publicId: images.publicId, title: images.title })
+      .from(images)
+      .where(and(sameCategory, sql`(${images.createdAt}, ${images.id}) > ${position}`))
+      .orderBy(asc(images.createdAt), asc(images.id))
+      .limit(1);
+
+    const [next] = await db
+      .select({ publicId: images.publicId, title: images.title })
+      .from(images)
+      .where(and(sameCategory, sql`(${images.createdAt}, ${images.id}) < ${position}`))
+      .orderBy(desc(images.createdAt), desc(images.id))
+      .limit(1);
+
+    return { previous: previous ?? null, next: next ?? null };
+  },
+  (imageId: number) => ['adjacent-images', imageId.toString()],
+  {
+    revalidate: 60 * 60 * 2, // 2 hours
+    tags: [CACHE_TAGS.images],
+  }
+);
+
+// Cap on lexemes taken from the source image so the OR query stays cheap
+const RELATED_TERMS_LIMIT = 32;
+
+// "More like this": same category first, then shared full-text terms, then same photographer
+export const getRelatedImages = unstable_cache(
+  async (imageId: number, limit: number = 8): Promise<ImageWithCategory[]> => {
+    const [source] = await db
+      .select({
+        categoryId: images.categoryId,
+        authorId: images.authorId,
+        lexemes: sql<string[] | null>`tsvector_to_array(${images.searchVector})`,
+      })
+      .from(images)
+      .where(eq(images.id, imageId));
+
+    if (!source) return [];
+
+    // The source's already-stemmed lexemes, OR-ed together as quoted tsquery terms
+    const sharedTermsQuery = (source.lexemes || [])
+      .slice(0, RELATED_TERMS_LIMIT)
+      .map(lexeme => `'${lexeme.replace(/'/g, "''")}'`)
+      .join(' | ');
+    const tsQuery = sharedTermsQuery ? sql`to_tsquery('simple', ${sharedTermsQuery})` : null;
+
+    const sameCategory = source.categoryId !== null
+      ? sql`(${images.categoryId} = ${source.categoryId})::int`
+      : sql`0`;
+    const sharedTerms = tsQuery ? sql`ts_rank_cd(${images.searchVector}, ${tsQuery})` : sql`0`;
+    const samePhotographer = source.authorId !== null
+      ? sql`(${images.authorId} = ${source.authorId})::int`
+      : sql`0`;
+
+    const rows = await db
+      .select({ image: imageColumns, category: categories })
+      .from(images)
+      .leftJoin(categories, eq(images.categoryId, categories.id))
+      .where(and(
+        ne(images.id, imageId),
+        or(
+          source.categoryId !== null ? eq(images.categoryId, source.categoryId) : undefined,
+          tsQuery ? sql`${images.searchVector} @@ ${tsQuery}` : undefined,
+          source.authorId !== null ? eq(images.authorId, source.authorId) : undefined,
+        )
+      ))
+      .orderBy(desc(sameCategory), desc(sharedTerms), desc(samePhotographer), desc(images.id))
+      .limit(limit);
+
+    log.debug('Fetched related images', { imageId, count: rows.length });
+    return rows.map(({ image, category }) => withCategory(image, category));
+  },
+  (imageId: number, limit: number = 8) => ['related-images', imageId.toString(), limit.toString()],
+  {
+    revalidate: 60 * 60 * 2, // 2 hours
+    tags: [CACHE_TAGS.images],
+  }
+);
@@ -0,0 +1,65 @@
+/**
+ * Fixed-window request limits per client for the public write endpoints
+ * Counters live in the server process, so each instance enforces its own limit -
+ * enough to stop a single client from flooding a table, not a global quota
+ */
+
+export interface RateLimiterOptions {
+  limit: number; // Requests allowed per window
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+// Past this many tracked clients, expired windows are swept before adding another
+const SWEEP_THRESHOLD = 10_000;
+
+export function createRateLimiter({ limit, windowMs }: RateLimiterOptions) {
+  const windows = new Map<string, Window>();
+
+  function sweep(now: number) {
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) windows.delete(key);
+    }
+  }
+
+  return {
+    take(key: string, now: number = Date.now()): RateLimitResult {
+      let window = windows.get(key);
+      if (!window || window.resetAt <= now) {
+        if (windows.size >= SWEEP_THRESHOLD) sweep(now);
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(key, window);
+      }
+
+      window.count++;
+      return {
+        allowed: window.count <= limit,
+        retryAfterSeconds: Math.ceil((window.resetAt - now) / 1000),
+      };
+    },
+  };
+}
+
+// Proxies in front of the app that append to x-forwarded-for (TRUSTED_PROXY_COUNT, default 1)
+function trustedProxyCount() {
+  const count = Number.parseInt(process.env.TRUSTED_PROXY_COUNT ?? '', 10);
+  return Number.isInteger(count) && count > 0 ? count : 1;
+}
+
+// Each proxy appends the address it received the request from, so the client is the hop the
+// outermost trusted proxy added - counted from the end. Earlier hops are whatever the client
+// sent and would let it pick a fresh key per request
+export function clientIp(request: Request): string {
+  const hops = request.headers.get('x-forwarded-for')?.split(',').map(hop => hop.trim()).filter(Boolean) ?? [];
+  const forwarded = hops[Math.max(0, hops.length - trustedProxyCount())];
+  return forwarded || request.headers.get('x-real-ip') || 'unknown';
+}
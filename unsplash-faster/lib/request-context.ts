@@ -0,0 +1,41 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { setRequestIdSource } from './logger';
+
+/**
+ * Request ids for route handlers: every log line written while a request is handled carries
+ * its id, and the response echoes it back in x-request-id. An id sent by the caller (a proxy,
+ * or a script retrying) is kept so both sides can be matched up
+ */
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+// Ignore anything that couldn't be a sensible id rather than writing it into every log line
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+const requestStorage = new AsyncLocalStorage<{ requestId: string }>();
+
+setRequestIdSource(() => requestStorage.getStore()?.requestId);
+
+export function getRequestId(): string | undefined {
+  return requestStorage.getStore()?.requestId;
+}
+
+function requestIdFor(request: Request) {
+  const provided = request.headers.get(REQUEST_ID_HEADER);
+  return provided && REQUEST_ID_PATTERN.test(provided) ? provided : randomUUID();
+}
+
+/**
+ * Route handler wrapper that assigns the request id
+ */
+export function withRequestContext<Req extends Request, Rest extends unknown[]>(
+  handler: (request: Req, ...rest: Rest) => Promise<Response>
+): (request: Req, ...rest: Rest) => Promise<Response> {
+  return async (request: Req, ...rest: Rest) => {
+    const requestId = requestIdFor(request);
+    const response = await requestStorage.run({ requestId }, () => handler(request, ...rest));
+    response.headers.set(REQUEST_ID_HEADER, requestId);
+    return response;
+  };
+}
@@ -1,4 +1,32 @@
-import { pgTable, serial, text, integer, timestamp, boolean } from 'drizzle-orm/pg-core';
+import { pgTable, serial, text, integer, timestamp, boolean, jsonb, primaryKey, index, unique, customType, doublePrecision } from 'drizzle-orm/pg-core';
+import { getTableColumns, sql } from 'drizzle-orm';
+import type { ImageSource } from './image-source';
+
+// Postgres full-text search document (no built-in drizzle column type)
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector';
+  },
+});
+
+// Camera settings from the photo's EXIF block
+export interface PhotoExif {
+  make: string | null;
+  model: string | null;
+  exposureTime: string | null;
+  aperture: string | null;
+  focalLength: string | null;
+  iso: number | null;
+}
+
+// Where the photo was taken, as tagged by the photographer
+export interface PhotoLocation {
+  name: string | null;
+  city: string | null;
+  country: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
 
 export const categories = pgTable('categories', {
   id: serial('id').primaryKey(),
@@ -11,22 +39,100 @@ export const images = pgTable('images', {
   id: serial('id').primaryKey(),
   title: text('title').notNull(),
   description: text('description'),
-  imageUrl: text('image_url').notNull(),    // Optimized Unsplash URL
-  originalUrl: text('original_url').notNull(), // Original Unsplash URL
+  imageUrl: text('image_url').notNull(),    // Self-hosted (/img/...) or hotlinked provider URL
+  originalUrl: text('original_url').notNull(), // Full-size URL at the provider, or the self-hosted one
   categoryId: integer('category_id').references(() => categories.id),
   width: integer('width').notNull(),
   height: integer('height').notNull(),
   fileSize: integer('file_size'),
-  unsplashId: text('unsplash_id').notNull().unique(),
-  unsplashUserId: text('unsplash_user_id'),
-  unsplashUserName: text('unsplash_user_name'),
-  unsplashLikes: integer('unsplash_likes'),
+  // Identity used in URLs (/image/<publicId>) - the Unsplash id for Unsplash photos, see publicIdFor()
+  publicId: text('public_id').notNull().unique(),
+  // Where the image came from (lib/image-source.ts) and its id there - unique together
+  source: text('source').$type<ImageSource>().notNull(),
+  sourceId: text('source_id').notNull(),
+  sourceUrl: text('source_url'), // The image's page on the provider's site
+  // Attribution as the provider reports it; author_id is what /photographer/<id> pages group by
+  authorId: text('author_id'),
+  authorName: text('author_name'),
+  authorUrl: text('author_url'),
+  likes: integer('likes'),
+  // Only filled when ingestion fetched the full photo record (--details)
+  exif: jsonb('exif').$type<PhotoExif>(),
+  location: jsonb('location').$type<PhotoLocation>(),
+  // Placeholder shown while the photo loads, see lib/placeholders.ts
+  dominantColor: text('dominant_color'), // Hex, e.g. "#60544D"
+  blurHash: text('blur_hash'),
   createdAt: timestamp('created_at').defaultNow(),
   updatedAt: timestamp('updated_at').defaultNow(),
+  // Maintained by Postgres: title weighted above description for ts_rank_cd
+  searchVector: tsvector('search_vector').generatedAlwaysAs(
+    sql`setweight(to_tsvector('english', coalesce(title, '')), 'A') || setweight(to_tsvector('english', coalesce(description, '')), 'B')`
+  ),
+}, (table) => [
+  index('images_search_vector_idx').using('gin', table.searchVector),
+  index('images_title_trgm_idx').using('gin', table.title.op('gin_trgm_ops')),
+  unique('images_source_source_id_unique').on(table.source, table.sourceId),
+]);
+
+// Every images column except the search document, which only the database needs
+export const imageColumns = Object.fromEntries(
+  Object.entries(getTableColumns(images)).filter(([key]) => key !== 'searchVector')
+) as Omit<typeof images._.columns, 'searchVector'>;
+
+// Free-form tags ("sunset", "aerial", ...) alongside the single category
+export const tags = pgTable('tags', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  slug: text('slug').notNull().unique(),
+  createdAt: timestamp('created_at').defaultNow(),
 });
 
+export const imageTags = pgTable('image_tags', {
+  imageId: integer('image_id').notNull().references(() => images.id, { onDelete: 'cascade' }),
+  tagId: integer('tag_id').notNull().references(() => tags.id, { onDelete: 'cascade' }),
+}, (table) => [
+  primaryKey({ columns: [table.imageId, table.tagId] }),
+  index('image_tags_tag_id_idx').on(table.tagId),
+]);
+
+// Last Unsplash page ingested per category feed, so interrupted runs resume where they stopped.
+// page_offset counts the images of last_page already stored when a run stopped part-way through it (0 = page done).
+// search_term holds the keyword search, or "topic:<slug>" / "collection:<id>" for curated feeds
+export const ingestCheckpoints = pgTable('ingest_checkpoints', {
+  categorySlug: text('category_slug').notNull(),
+  searchTerm: text('search_term').notNull().default(''),
+  lastPage: integer('last_page').notNull().default(0),
+  pageOffset: integer('page_offset').notNull().default(0),
+  ingestedCount: integer('ingested_count').notNull().default(0),
+  completedAt: timestamp('completed_at'),
+  updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.categorySlug, table.searchTerm] }),
+]);
+
+// Real-user performance samples from WebVitalsReporter, one row per metric per page view
+// (see features/performance/lib/vitals-api.ts for the names and cache statuses)
+export const webVitals = pgTable('web_vitals', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(), // LCP, INP, CLS, TTFB or NAV
+  value: doublePrecision('value').notNull(), // Milliseconds, except CLS (unitless)
+  rating: text('rating'), // good / needs-improvement / poor, null for NAV
+  route: text('route').notNull(), // Route pattern, e.g. "/image/[id]"
+  navigationType: text('navigation_type').notNull(), // navigate, reload, back-forward, prerender, soft, ...
+  prefetched: boolean('prefetched').notNull().default(false),
+  cacheStatus: text('cache_status'), // prerender, prefetch, router, http, network
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('web_vitals_created_at_idx').on(table.createdAt),
+]);
+
 // Types for TypeScript
 export type Category = typeof categories.$inferSelect;
-export type Image = typeof images.$inferSelect;
+export type Image = Omit<typeof images.$inferSelect, 'searchVector'>;
 export type NewCategory = typeof categories.$inferInsert;
-export type NewImage = typeof images.$inferInsert;
\ No newline at end of file
+export type NewImage = typeof images.$inferInsert;
+export type Tag = typeof tags.$inferSelect;
+export type NewTag = typeof tags.$inferInsert;
+export type IngestCheckpoint = typeof ingestCheckpoints.$inferSelect;
+export type WebVital = typeof webVitals.$inferSelect;
+export type NewWebVital = typeof webVitals.$inferInsert;
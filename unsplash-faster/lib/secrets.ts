@@ -0,0 +1,16 @@
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * Shared-secret checks for the write endpoints scripts call (revalidation, uploads)
+ */
+
+// The secret from the endpoint's own header, or Authorization: Bearer
+export function hasValidSecret(request: Request, header: string, secret: string): boolean {
+  const provided = request.headers.get(header)
+    ?? request.headers.get('authorization')?.replace(/^Bearer /, '');
+  if (!provided) return false;
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(provided);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,48 @@
+import { inArray } from 'drizzle-orm';
+import { db } from './db';
+import { imageTags, tags } from './schema';
+
+/**
+ * Normalise a free-form tag title ("Sunset ", "aerial view") into a URL slug
+ */
+export function slugifyTag(title: string): string {
+  return title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Create any missing tags and link them to an image
+ * Safe to call repeatedly - existing tags and links are left untouched
+ */
+export async function attachTagsToImage(imageId: number, titles: string[]): Promise<number> {
+  const bySlug = new Map<string, string>();
+  for (const title of titles) {
+    const slug = slugifyTag(title);
+    if (slug && !bySlug.has(slug)) {
+      bySlug.set(slug, title.trim().toLowerCase());
+    }
+  }
+
+  if (bySlug.size === 0) return 0;
+
+  await db
+    .insert(tags)
+    .values(Array.from(bySlug, ([slug, name]) => ({ slug, name })))
+    .onConflictDoNothing({ target: tags.slug });
+
+  const tagRows = await db
+    .select({ id: tags.id })
+    .from(tags)
+    .where(inArray(tags.slug, Array.from(bySlug.keys())));
+
+  await db
+    .insert(imageTags)
+    .values(tagRows.map((tag) => ({ imageId, tagId: tag.id })))
+    .onConflictDoNothing();
+
+  return tagRows.length;
+}
@@ -0,0 +1,111 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { UnsplashTransport } from './unsplash';
+
+/**
+ * Recorded Unsplash responses for running the client and ingestion offline
+ * Record once with createRecordingTransport, replay with createFixtureTransport
+ */
+
+// Only the headers the client reads are kept - never the request's Authorization
+const RECORDED_HEADERS = ['content-type', 'x-ratelimit-limit', 'x-ratelimit-remaining', 'retry-after'];
+
+interface RecordedResponse {
+  method: string;
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  encoding: 'utf8' | 'base64';
+  body: string;
+}
+
+export class FixtureNotFoundError extends Error {
+  constructor(public readonly url: string, public readonly path: string) {
+    super(`No recorded Unsplash fixture for ${url} (expected ${path})`);
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+// Query parameters are sorted so the same request always maps to the same file
+function fixtureKey(url: string, method: string) {
+  const parsed = new URL(url);
+  parsed.searchParams.sort();
+  return `${method} ${parsed.host}${parsed.pathname}${parsed.search}`;
+}
+
+function fixtureFileName(key: string) {
+  const readable = key.replace(/[^a-zA-Z0-9]+/g, '_').slice(0, 80);
+  const hash = createHash('sha1').update(key).digest('hex').slice(0, 10);
+  return `${readable}-${hash}.json`;
+}
+
+function toResponse(recorded: RecordedResponse) {
+  const body = Buffer.from(recorded.body, recorded.encoding);
+  return new Response(body, {
+    status: recorded.status,
+    statusText: recorded.statusText,
+    headers: recorded.headers,
+  });
+}
+
+/**
+ * Serves every request from JSON files in `directory`
+ * A request without a recording fails instead of reaching the network
+ */
+export function createFixtureTransport(directory: string): UnsplashTransport {
+  return async (url, init) => {
+    const method = init.method ?? 'GET';
+    const path = join(directory, fixtureFileName(fixtureKey(url, method)));
+
+    let contents: string;
+    try {
+      contents = await readFile(path, 'utf8');
+    } catch {
+      throw new FixtureNotFoundError(url, path);
+    }
+
+    return toResponse(JSON.parse(contents) as RecordedResponse);
+  };
+}
+
+/**
+ * Passes requests through to `transport` and saves each response into `directory`
+ */
+export function createRecordingTransport(
+  directory: string,
+  transport: UnsplashTransport = (url, init) => fetch(url, init)
+): UnsplashTransport {
+  return async (url, init) => {
+    const method = init.method ?? 'GET';
+    const response = await transport(url, init);
+    const body = Buffer.from(await response.arrayBuffer());
+    const contentType = response.headers.get('content-type') ?? '';
+    const isText = contentType.includes('json') || contentType.startsWith('text/');
+
+    const headers: Record<string, string> = {};
+    for (const name of RECORDED_HEADERS) {
+      const value = response.headers.get(name);
+      if (value !== null) headers[name] = value;
+    }
+
+    const recorded: RecordedResponse = {
+      method,
+      url,
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      encoding: isText ? 'utf8' : 'base64',
+      body: body.toString(isText ? 'utf8' : 'base64'),
+    };
+
+    await mkdir(directory, { recursive: true });
+    await writeFile(
+      join(directory, fixtureFileName(fixtureKey(url, method))),
+      JSON.stringify(recorded, null, 2) + '\n'
+    );
+
+    return toResponse(recorded);
+  };
+}
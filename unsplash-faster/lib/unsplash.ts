@@ -1,7 +1,39 @@
-interface UnsplashImage {
+import { createLogger } from './logger';
+import type { PhotoExif, PhotoLocation } from './schema';
+import type {
+  ImageSourceProvider,
+  SourceImage,
+  SourceImageDetails,
+  SourcePage,
+  SourceQuery,
+} from './image-source';
+
+const log = createLogger('unsplash');
+
+export interface UnsplashUser {
   id: string;
+  name: string;
+  username: string;
+  links?: {
+    html: string;
+  };
+}
+
+// Search tags are keyword suggestions, landing pages are curated
+export interface UnsplashTag {
+  type: 'search' | 'landing_page';
+  title: string;
+}
+
+export interface UnsplashImage {
+  id: string;
+  created_at: string;
   description: string | null;
   alt_description: string | null;
+  // Dominant colour as a hex string, e.g. "#60544D"
+  color: string | null;
+  // Compact placeholder, see https://blurha.sh
+  blur_hash: string | null;
   urls: {
     raw: string;
     full: string;
@@ -11,68 +43,474 @@ interface UnsplashImage {
     small_s3: string;
   };
   links: {
+    html: string;
     download_location: string;
   };
   width: number;
   height: number;
   likes: number;
-  user: {
-    id: string;
-    name: string;
-    username: string;
-  };
+  user: UnsplashUser;
+  // Included on search results
+  tags?: UnsplashTag[];
 }
 
-interface UnsplashSearchResponse {
+export interface UnsplashExif {
+  make: string | null;
+  model: string | null;
+  name: string | null;
+  exposure_time: string | null;
+  aperture: string | null;
+  focal_length: string | null;
+  iso: number | null;
+}
+
+export interface UnsplashLocation {
+  name: string | null;
+  city: string | null;
+  country: string | null;
+  position: {
+    latitude: number | null;
+    longitude: number | null;
+  } | null;
+}
+
+// GET /photos/:id - everything a list endpoint returns plus camera, place and full tags
+export interface UnsplashPhotoDetails extends UnsplashImage {
+  exif: UnsplashExif | null;
+  location: UnsplashLocation | null;
+  tags: UnsplashTag[];
+  views: number;
+  downloads: number;
+}
+
+/**
+ * One page of a paged endpoint
+ * Search returns this shape directly, the list endpoints are normalised to it from X-Total
+ */
+export interface UnsplashPage<T> {
   total: number;
   total_pages: number;
-  results: UnsplashImage[];
+  results: T[];
+}
+
+export type UnsplashSearchResponse = UnsplashPage<UnsplashImage>;
+
+export type UnsplashOrientation = 'landscape' | 'portrait' | 'squarish';
+
+export const UNSPLASH_COLORS = [
+  'black_and_white', 'black', 'white', 'yellow', 'orange', 'red',
+  'purple', 'magenta', 'green', 'teal', 'blue',
+] as const;
+export type UnsplashColor = (typeof UNSPLASH_COLORS)[number];
+
+// Optional narrowing supported by GET /search/photos
+export interface SearchPhotosOptions {
+  orientation?: UnsplashOrientation;
+  color?: UnsplashColor;
+}
+
+export interface PageOptions {
+  page?: number;
+  // Unsplash caps every list endpoint at 30 per page
+  perPage?: number;
+}
+
+export interface CollectionPhotosOptions extends PageOptions {
+  orientation?: UnsplashOrientation;
+}
+
+export interface TopicPhotosOptions extends PageOptions {
+  orientation?: UnsplashOrientation;
+  orderBy?: 'latest' | 'oldest' | 'popular';
+}
+
+export interface RandomPhotosOptions {
+  // 1-30 photos per call
+  count?: number;
+  query?: string;
+  topics?: string[];
+  collections?: string[];
+  orientation?: UnsplashOrientation;
+  contentFilter?: 'low' | 'high';
+}
+
+export const UNSPLASH_MAX_PER_PAGE = 30;
+
+/**
+ * Sends one HTTP request - `fetch` by default
+ * Swap it for a fixture transport (lib/unsplash-fixtures.ts) to run offline
+ */
+export type UnsplashTransport = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface UnsplashAPIOptions {
+  transport?: UnsplashTransport;
+  // Retries after the first attempt for 5xx, 429 and network errors
+  maxRetries?: number;
+  // Exponential backoff: a random delay up to baseDelayMs * 2^attempt, capped at maxDelayMs
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Start pacing requests once X-Ratelimit-Remaining drops to this many
+  lowQuotaThreshold?: number;
+  // Unsplash quotas are per hour
+  rateLimitWindowMs?: number;
+  // Overridable so callers can run without real waiting
+  sleep?: (ms: number) => Promise<void>;
+  random?: () => number;
+}
+
+export interface UnsplashRateLimit {
+  limit: number;
+  remaining: number;
+  observedAt: Date;
 }
 
-export class UnsplashAPI {
+/**
+ * Non-OK response from the Unsplash API after retries ran out (or for errors that aren't retried)
+ */
+export class UnsplashAPIError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly statusText: string,
+    public readonly url: string
+  ) {
+    super(`Unsplash API error: ${status} ${statusText} (${url})`);
+    this.name = 'UnsplashAPIError';
+  }
+}
+
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+
+function defaultSleep(ms: number) {
+  return new Promise<void>(resolve => setTimeout(resolve, ms));
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// fetch rejects with a TypeError when the request never got a response
+function isNetworkError(error: unknown) {
+  return error instanceof TypeError;
+}
+
+/**
+ * An Unsplash photo as the provider-neutral record ingestion stores
+ */
+export function toSourceImage(image: UnsplashImage): SourceImage {
+  return {
+    sourceId: image.id,
+    title: image.description || image.alt_description,
+    description: image.alt_description || image.description,
+    width: image.width,
+    height: image.height,
+    author: {
+      id: image.user.id,
+      name: image.user.name,
+      url: image.user.links?.html ?? `https://unsplash.com/@${image.user.username}`,
+    },
+    likes: image.likes,
+    pageUrl: image.links.html,
+    originalUrl: image.urls.raw,
+    dominantColor: image.color,
+    blurHash: image.blur_hash,
+    tags: (image.tags ?? []).map(tag => tag.title),
+  };
+}
+
+function photoExif(details: UnsplashPhotoDetails): PhotoExif | null {
+  const { exif } = details;
+  if (!exif || Object.values(exif).every(value => value === null)) return null;
+
+  return {
+    make: exif.make,
+    model: exif.model,
+    exposureTime: exif.exposure_time,
+    aperture: exif.aperture,
+    focalLength: exif.focal_length,
+    iso: exif.iso,
+  };
+}
+
+function photoLocation(details: UnsplashPhotoDetails): PhotoLocation | null {
+  const { location } = details;
+  if (!location || (!location.name && !location.city && !location.country)) return null;
+
+  return {
+    name: location.name,
+    city: location.city,
+    country: location.country,
+    latitude: location.position?.latitude ?? null,
+    longitude: location.position?.longitude ?? null,
+  };
+}
+
+export class UnsplashAPI implements ImageSourceProvider {
+  readonly source = 'unsplash';
+
   private baseUrl = 'https://api.unsplash.com';
   private accessKey: string;
+  private transport: UnsplashTransport;
+  private maxRetries: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private lowQuotaThreshold: number;
+  private rateLimitWindowMs: number;
+  private sleep: (ms: number) => Promise<void>;
+  private random: () => number;
+  private rateLimit: UnsplashRateLimit | null = null;
 
-  constructor(accessKey: string) {
+  constructor(accessKey: string, options: UnsplashAPIOptions = {}) {
     this.accessKey = accessKey;
+    this.transport = options.transport ?? ((url, init) => fetch(url, init));
+    this.maxRetries = options.maxRetries ?? 4;
+    this.baseDelayMs = options.baseDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 30_000;
+    this.lowQuotaThreshold = options.lowQuotaThreshold ?? 5;
+    this.rateLimitWindowMs = options.rateLimitWindowMs ?? 60 * 60 * 1000;
+    this.sleep = options.sleep ?? defaultSleep;
+    this.random = options.random ?? Math.random;
+  }
+
+  /**
+   * Latest X-Ratelimit-* values seen, or null before the first API response
+   */
+  getRateLimit(): UnsplashRateLimit | null {
+    return this.rateLimit;
+  }
+
+  private recordRateLimit(response: Response) {
+    const limit = Number(response.headers.get('X-Ratelimit-Limit'));
+    const remaining = Number(response.headers.get('X-Ratelimit-Remaining'));
+
+    if (response.headers.has('X-Ratelimit-Remaining') && Number.isFinite(remaining)) {
+      this.rateLimit = {
+        limit: Number.isFinite(limit) ? limit : this.rateLimit?.limit ?? remaining,
+        remaining,
+        observedAt: new Date(),
+      };
+    }
   }
 
-  private async fetch(endpoint: string, params: Record<string, string> = {}) {
+  /**
+   * How long to hold the next API call so we don't burn through the hourly quota
+   * An empty quota waits out the window, a low one spreads the rest evenly across it
+   */
+  private quotaDelay(): number {
+    if (!this.rateLimit || this.rateLimit.remaining > this.lowQuotaThreshold) return 0;
+
+    const elapsed = Date.now() - this.rateLimit.observedAt.getTime();
+    const delay = this.rateLimit.remaining <= 0
+      ? this.rateLimitWindowMs
+      : this.rateLimitWindowMs / Math.max(this.rateLimit.limit, 1);
+
+    return Math.max(0, delay - elapsed);
+  }
+
+  private backoffDelay(attempt: number): number {
+    const ceiling = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+    // Full jitter keeps parallel ingests from retrying in lockstep
+    return Math.round(this.random() * ceiling);
+  }
+
+  /**
+   * Runs a request through the transport, pausing for the rate limit and
+   * retrying 5xx, 429 and network errors with backoff (or Retry-After when sent)
+   */
+  private async request(url: string, init: RequestInit = {}, countsAgainstQuota = true): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      if (countsAgainstQuota) {
+        const pause = this.quotaDelay();
+        if (pause > 0) {
+          log.warn('Quota low, pausing', { remaining: this.rateLimit?.remaining, pauseMs: pause });
+          await this.sleep(pause);
+          // Assume the window moved on; the next response tells us the real numbers
+          if (this.rateLimit) this.rateLimit = { ...this.rateLimit, observedAt: new Date() };
+        }
+      }
+
+      let response: Response;
+      try {
+        response = await this.transport(url, init);
+      } catch (error) {
+        if (!isNetworkError(error) || attempt >= this.maxRetries) throw error;
+
+        const delay = this.backoffDelay(attempt);
+        log.warn('Network error, retrying', { delayMs: delay, attempt: attempt + 1, maxRetries: this.maxRetries, error });
+        await this.sleep(delay);
+        continue;
+      }
+
+      if (countsAgainstQuota) this.recordRateLimit(response);
+
+      if (response.ok) return response;
+
+      // Unsplash answers an exhausted quota with 403 "Rate Limit Exceeded"
+      const rateLimited = response.status === 429 ||
+        (response.status === 403 && this.rateLimit?.remaining === 0);
+      const retryable = RETRYABLE_STATUS.has(response.status) || rateLimited;
+
+      if (!retryable || attempt >= this.maxRetries) {
+        throw new UnsplashAPIError(response.status, response.statusText, url);
+      }
+
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+      const wait = Math.max(retryAfter ?? (rateLimited ? this.quotaDelay() : 0), this.backoffDelay(attempt));
+
+      log.warn('Request failed, retrying', { status: response.status, delayMs: wait, attempt: attempt + 1, maxRetries: this.maxRetries });
+      // Discard the body so the connection can be reused
+      await response.body?.cancel();
+      await this.sleep(wait);
+    }
+  }
+
+  private async get(endpoint: string, params: Record<string, string | undefined> = {}) {
     const url = new URL(`${this.baseUrl}${endpoint}`);
     Object.entries(params).forEach(([key, value]) => {
-      url.searchParams.append(key, value);
+      if (value !== undefined) url.searchParams.append(key, value);
     });
 
-    const response = await fetch(url.toString(), {
+    return this.request(url.toString(), {
       headers: {
         'Authorization': `Client-ID ${this.accessKey}`,
         'Accept-Version': 'v1',
       },
     });
+  }
 
-    if (!response.ok) {
-      throw new Error(`Unsplash API error: ${response.status} ${response.statusText}`);
-    }
-
+  private async fetch(endpoint: string, params: Record<string, string | undefined> = {}) {
+    const response = await this.get(endpoint, params);
     return response.json();
   }
 
-  async searchPhotos(query: string, perPage: number = 30, page: number = 1): Promise<UnsplashSearchResponse> {
+  /**
+   * List endpoints return a bare array and put the total in X-Total
+   */
+  private async fetchPage<T>(
+    endpoint: string,
+    { page = 1, perPage = UNSPLASH_MAX_PER_PAGE }: PageOptions,
+    params: Record<string, string | undefined> = {}
+  ): Promise<UnsplashPage<T>> {
+    const response = await this.get(endpoint, {
+      ...params,
+      page: page.toString(),
+      per_page: Math.min(perPage, UNSPLASH_MAX_PER_PAGE).toString(),
+    });
+    const results: T[] = await response.json();
+    const total = Number(response.headers.get('X-Total') ?? results.length);
+
+    return {
+      total,
+      total_pages: Math.ceil(total / Math.min(perPage, UNSPLASH_MAX_PER_PAGE)),
+      results,
+    };
+  }
+
+  async searchPhotos(
+    query: string,
+    perPage: number = 30,
+    page: number = 1,
+    options: SearchPhotosOptions = {}
+  ): Promise<UnsplashSearchResponse> {
     return this.fetch('/search/photos', {
       query,
       per_page: perPage.toString(),
       page: page.toString(),
       order_by: 'relevant',
+      orientation: options.orientation,
+      color: options.color,
     });
   }
 
+  /**
+   * Full photo record, including EXIF, location and the complete tag list
+   */
+  async getPhoto(id: string): Promise<UnsplashPhotoDetails> {
+    return this.fetch(`/photos/${encodeURIComponent(id)}`);
+  }
+
+  async getCollectionPhotos(id: string, options: CollectionPhotosOptions = {}): Promise<UnsplashPage<UnsplashImage>> {
+    return this.fetchPage(`/collections/${encodeURIComponent(id)}/photos`, options, {
+      orientation: options.orientation,
+    });
+  }
+
+  async getTopicPhotos(slug: string, options: TopicPhotosOptions = {}): Promise<UnsplashPage<UnsplashImage>> {
+    return this.fetchPage(`/topics/${encodeURIComponent(slug)}/photos`, options, {
+      orientation: options.orientation,
+      order_by: options.orderBy,
+    });
+  }
+
+  /**
+   * Random photos, optionally narrowed to a query or to topics/collections
+   * Not paged - each call draws a fresh sample of up to 30
+   */
+  async getRandomPhotos(options: RandomPhotosOptions = {}): Promise<UnsplashImage[]> {
+    return this.fetch('/photos/random', {
+      // With count set the endpoint always returns an array
+      count: Math.min(options.count ?? 1, UNSPLASH_MAX_PER_PAGE).toString(),
+      query: options.query,
+      topics: options.topics?.join(','),
+      collections: options.collections?.join(','),
+      orientation: options.orientation,
+      content_filter: options.contentFilter,
+    });
+  }
+
+  /**
+   * ImageSourceProvider: feeds are "topic:<slug>", "collection:<id>" or a bare search term
+   */
+  async listImages(query: SourceQuery, page: number, perPage: number): Promise<SourcePage> {
+    const { feed, orientation } = query;
+    const color = query.color as UnsplashColor | undefined;
+
+    const response = feed.startsWith('topic:')
+      ? await this.getTopicPhotos(feed.slice('topic:'.length), { page, perPage, orientation })
+      : feed.startsWith('collection:')
+        ? await this.getCollectionPhotos(feed.slice('collection:'.length), { page, perPage, orientation })
+        : await this.searchPhotos(feed, perPage, page, { orientation, color });
+
+    return { images: response.results.map(toSourceImage), totalPages: response.total_pages };
+  }
+
+  async fetchOriginal(image: SourceImage, maxWidth: number): Promise<Buffer> {
+    return this.downloadImage(this.getSourceUrl(image.originalUrl, maxWidth));
+  }
+
+  // Unsplash-optimized URL (800px width, WebP format)
+  hotlinkUrl(image: SourceImage): string {
+    return `${image.originalUrl}&w=800&q=80&fm=webp&fit=crop`;
+  }
+
+  async getDetails(image: SourceImage): Promise<SourceImageDetails> {
+    const details = await this.getPhoto(image.sourceId);
+    return {
+      exif: photoExif(details),
+      location: photoLocation(details),
+      tags: details.tags.map(tag => tag.title),
+    };
+  }
+
+  // Same endpoint as a photo's links.download_location
+  async recordDownload(image: SourceImage): Promise<void> {
+    await this.registerDownload(`${this.baseUrl}/photos/${encodeURIComponent(image.sourceId)}/download`);
+  }
+
   async registerDownload(downloadUrl: string): Promise<void> {
     // Required by Unsplash API for usage tracking
-    await fetch(downloadUrl, {
+    const response = await this.request(downloadUrl, {
       headers: {
         'Authorization': `Client-ID ${this.accessKey}`,
       },
     });
+    await response.body?.cancel();
   }
 
   /**
@@ -83,14 +521,26 @@ export class UnsplashAPI {
     return `${image.urls.raw}&w=${width}&q=${quality}&fm=webp&fit=crop`;
   }
 
+  /**
+   * High-quality JPEG of a photo no wider than maxWidth, for local processing
+   * Accepts a raw URL or any imgix URL derived from it (like the stored optimized URL)
+   */
+  getSourceUrl(imageUrl: string, maxWidth: number): string {
+    const url = new URL(imageUrl);
+    url.searchParams.set('w', maxWidth.toString());
+    url.searchParams.set('q', '90');
+    url.searchParams.set('fm', 'jpg');
+    // Never upscale or crop - keep the photo's own aspect ratio
+    url.searchParams.set('fit', 'max');
+    return url.toString();
+  }
+
   /**
    * Download image buffer for local storage
    */
   async downloadImage(url: string): Promise<Buffer> {
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`Failed to download image: ${response.status}`);
-    }
+    // Image CDN requests don't count against the API quota
+    const response = await this.request(url, {}, false);
     return Buffer.from(await response.arrayBuffer());
   }
 }
\ No newline at end of file
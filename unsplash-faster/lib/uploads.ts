@@ -0,0 +1,151 @@
+import { randomBytes } from 'crypto';
+import { eq } from 'drizzle-orm';
+import sharp from 'sharp';
+import { db } from './db';
+import { categories, imageColumns, images, type Image } from './schema';
+import { imageStorageKey, storeImageVariants } from './image-pipeline';
+import { computePlaceholder } from './placeholders';
+import { createLogger } from './logger';
+import { CACHE_TAGS } from '@/features/performance/lib/cache';
+
+/**
+ * User-contributed images: validate the file, self-host it like an ingested photo, insert the row
+ */
+
+const log = createLogger('images');
+
+export const UPLOAD_MAX_BYTES = 15 * 1024 * 1024;
+
+// Header POST /api/images reads UPLOAD_SECRET from
+export const UPLOAD_SECRET_HEADER = 'x-upload-secret';
+
+// Declared MIME type -> the format sharp reports when it actually reads the file
+const ALLOWED_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpeg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/avif': 'heif',
+};
+
+export const UPLOAD_MIME_TYPES = Object.keys(ALLOWED_TYPES);
+
+const TITLE_MAX_LENGTH = 200;
+const DESCRIPTION_MAX_LENGTH = 2000;
+
+/**
+ * A rejected upload - status is the HTTP status the API answers with
+ */
+export class UploadError extends Error {
+  constructor(message: string, public readonly status: 400 | 413 | 415) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+export interface UploadInput {
+  file: Buffer;
+  mimeType: string;
+  title: string;
+  description?: string | null;
+  categorySlug?: string | null;
+}
+
+// Short, URL-safe and unguessable - the upload's identity in /image/<publicId>
+function generatePublicId() {
+  return `u_${randomBytes(9).toString('base64url')}`;
+}
+
+async function readFormat(file: Buffer) {
+  try {
+    const metadata = await sharp(file).metadata();
+    return metadata.width && metadata.height ? metadata.format : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function resolveCategoryId(slug: string | null | undefined) {
+  if (!slug) return null;
+
+  const [category] = await db
+    .select({ id: categories.id })
+    .from(categories)
+    .where(eq(categories.slug, slug))
+    .limit(1);
+  if (!category) throw new UploadError(`Unknown category "${slug}"`, 400);
+  return category.id;
+}
+
+/**
+ * Cached queries a new upload appears in - revalidated by whoever stored it
+ */
+export function uploadCacheTags(categorySlug?: string | null): string[] {
+  return [
+    CACHE_TAGS.images,
+    CACHE_TAGS.categories,
+    ...(categorySlug ? [CACHE_TAGS.category(categorySlug)] : []),
+  ];
+}
+
+/**
+ * Validates an upload, stores its variant ladder and inserts it into `images`
+ * Dimensions and file size come from the file itself, never from the client
+ */
+export async function createUploadedImage(input: UploadInput): Promise<Image> {
+  const title = input.title.trim();
+  const description = input.description?.trim() || null;
+
+  if (!title) throw new UploadError('A title is required', 400);
+  if (title.length > TITLE_MAX_LENGTH) {
+    throw new UploadError(`Title must be at most ${TITLE_MAX_LENGTH} characters`, 400);
+  }
+  if (description && description.length > DESCRIPTION_MAX_LENGTH) {
+    throw new UploadError(`Description must be at most ${DESCRIPTION_MAX_LENGTH} characters`, 400);
+  }
+  if (input.file.length === 0) throw new UploadError('The file is empty', 400);
+  if (input.file.length > UPLOAD_MAX_BYTES) {
+    throw new UploadError(`Images must be at most ${UPLOAD_MAX_BYTES / 1024 / 1024}MB`, 413);
+  }
+
+  const expectedFormat = ALLOWED_TYPES[input.mimeType];
+  if (!expectedFormat) {
+    throw new UploadError(`Unsupported type "${input.mimeType}" - use ${UPLOAD_MIME_TYPES.join(', ')}`, 415);
+  }
+  // The declared type is only a hint, the bytes have to agree
+  const format = await readFormat(input.file);
+  if (format !== expectedFormat) {
+    throw new UploadError(`The file is not a valid ${input.mimeType} image`, 415);
+  }
+
+  const categoryId = await resolveCategoryId(input.categorySlug);
+
+  const publicId = generatePublicId();
+  const hosted = await storeImageVariants(input.file, imageStorageKey(publicId));
+  const placeholder = await computePlaceholder(input.file).catch((error) => {
+    log.warn('Could not compute placeholder', { publicId, error });
+    return null;
+  });
+
+  const [image] = await db.insert(images).values({
+    publicId,
+    source: 'upload',
+    sourceId: publicId,
+    title,
+    description,
+    imageUrl: hosted.imageUrl,
+    originalUrl: hosted.originalUrl,
+    categoryId,
+    width: hosted.width,
+    height: hosted.height,
+    fileSize: hosted.fileSize,
+    ...placeholder,
+  }).returning(imageColumns);
+
+  log.info('Uploaded image', {
+    publicId,
+    width: hosted.width,
+    height: hosted.height,
+    variants: hosted.variantCount,
+  });
+  return image;
+}
@@ -0,0 +1,141 @@
+import { and, asc, gte, inArray, lt, sql } from 'drizzle-orm';
+import { db } from './db';
+import { webVitals } from './schema';
+import type { VitalSample } from '@/features/performance/lib/vitals-api';
+
+/**
+ * Storage and reporting for the real-user samples sent to POST /api/vitals
+ */
+
+// Pages are reported by route so /image/abc and /image/xyz land in the same bucket
+const ROUTE_PATTERNS: Array<[RegExp, string]> = [
+  [/^\/$/, '/'],
+  [/^\/image\/[^/]+$/, '/image/[id]'],
+  [/^\/search$/, '/search'],
+  [/^\/tag\/[^/]+$/, '/tag/[slug]'],
+  [/^\/photographer\/[^/]+$/, '/photographer/[id]'],
+  [/^\/offline$/, '/offline'],
+  [/^\/perf$/, '/perf'],
+];
+
+// Anything else (404s, probes) shares one bucket instead of adding a row per URL
+export const OTHER_ROUTE = '(other)';
+
+export function routeForPath(path: string): string {
+  return ROUTE_PATTERNS.find(([pattern]) => pattern.test(path))?.[1] ?? OTHER_ROUTE;
+}
+
+// Comfortably past the longest /perf window (30 days)
+export const VITALS_RETENTION_DAYS = 35;
+
+// Pruning runs at most this often per server process
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+let lastPrunedAt = 0;
+
+/**
+ * Deletes samples older than VITALS_RETENTION_DAYS, returning how many went
+ */
+export async function pruneWebVitals(retentionDays: number = VITALS_RETENTION_DAYS): Promise<number> {
+  const deleted = await db
+    .delete(webVitals)
+    .where(lt(webVitals.createdAt, sql`now() - make_interval(days => ${retentionDays})`))
+    .returning({ id: webVitals.id });
+  return deleted.length;
+}
+
+/**
+ * pruneWebVitals, unless this process already pruned within the last hour -
+ * called from the beacon route so the table stays bounded without a scheduler
+ */
+export async function pruneWebVitalsIfDue(now: number = Date.now()): Promise<number | null> {
+  if (now - lastPrunedAt < PRUNE_INTERVAL_MS) return null;
+  lastPrunedAt = now;
+  return pruneWebVitals();
+}
+
+export async function recordWebVitals(samples: VitalSample[]): Promise<void> {
+  if (samples.length === 0) return;
+
+  await db.insert(webVitals).values(samples.map((sample) => ({
+    name: sample.name,
+    value: sample.value,
+    rating: sample.rating,
+    route: routeForPath(sample.path),
+    navigationType: sample.navigationType,
+    prefetched: sample.prefetched,
+    cacheStatus: sample.cacheStatus,
+  })));
+}
+
+export interface VitalPercentiles {
+  samples: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface VitalSummaryRow extends VitalPercentiles {
+  route: string;
+  name: string;
+  prefetched: boolean;
+}
+
+export interface VitalDailyRow extends VitalPercentiles {
+  day: string; // YYYY-MM-DD (UTC)
+  route: string;
+  name: string;
+  prefetched: boolean;
+}
+
+export interface NavigationCacheRow extends VitalPercentiles {
+  route: string;
+  name: string; // NAV for client-side navigations, TTFB for full page loads
+  cacheStatus: string | null;
+}
+
+export interface WebVitalsReport {
+  days: number;
+  summary: VitalSummaryRow[];
+  daily: VitalDailyRow[];
+  navigationCache: NavigationCacheRow[];
+}
+
+const percentiles = {
+  samples: sql<number>`count(*)::int`,
+  p50: sql<number>`percentile_cont(0.5) within group (order by ${webVitals.value})`,
+  p75: sql<number>`percentile_cont(0.75) within group (order by ${webVitals.value})`,
+  p95: sql<number>`percentile_cont(0.95) within group (order by ${webVitals.value})`,
+};
+
+/**
+ * p50/p75/p95 over the last `days` days, per route and metric, split by whether the link was
+ * prefetched - overall, per day, and per cache status for navigations
+ * Not cached: the report is only opened now and then and should show the latest samples
+ */
+export async function getWebVitalsReport(days: number): Promise<WebVitalsReport> {
+  const since = gte(webVitals.createdAt, sql`now() - make_interval(days => ${days})`);
+  const day = sql<string>`to_char(date_trunc('day', ${webVitals.createdAt}), 'YYYY-MM-DD')`;
+
+  const [summary, daily, navigationCache] = await Promise.all([
+    db
+      .select({ route: webVitals.route, name: webVitals.name, prefetched: webVitals.prefetched, ...percentiles })
+      .from(webVitals)
+      .where(since)
+      .groupBy(webVitals.route, webVitals.name, webVitals.prefetched)
+      .orderBy(asc(webVitals.route), asc(webVitals.name), asc(webVitals.prefetched)),
+    db
+      .select({ day, route: webVitals.route, name: webVitals.name, prefetched: webVitals.prefetched, ...percentiles })
+      .from(webVitals)
+      .where(since)
+      .groupBy(day, webVitals.route, webVitals.name, webVitals.prefetched)
+      .orderBy(asc(webVitals.route), asc(day), asc(webVitals.name), asc(webVitals.prefetched)),
+    db
+      .select({ route: webVitals.route, name: webVitals.name, cacheStatus: webVitals.cacheStatus, ...percentiles })
+      .from(webVitals)
+      .where(and(since, inArray(webVitals.name, ['NAV', 'TTFB'])))
+      .groupBy(webVitals.route, webVitals.name, webVitals.cacheStatus)
+      .orderBy(asc(webVitals.route), asc(webVitals.name), asc(webVitals.cacheStatus)),
+  ]);
+
+  return { days, summary, daily, navigationCache };
+}
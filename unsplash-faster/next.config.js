@@ -11,9 +11,14 @@ const nextConfig = {
     // NextFaster image optimization settings - OPTIMIZED FOR PERFORMANCE
     // for images that uses Next Image component
     images: {
+        // Self-hosted variants (/img/...) are served as-is and Unsplash resizes hotlinked images;
+        // with a custom loader /_next/image is disabled (see lib/image-loader.ts)
+        loader: 'custom',
+        loaderFile: './lib/image-loader.ts',
         minimumCacheTTL: 31536000,  // 1 year cache for images (like NextFaster)
         formats: ['image/webp', 'image/avif'], // Modern formats for better compression
         qualities: [50, 60, 75, 80, 85, 90], // Optimized quality ladder for better compression
+        // Both lists also define the self-hosted variant ladder (lib/image-pipeline.ts)
         deviceSizes: [320, 480, 640, 768, 1024, 1280, 1920], // Responsive breakpoints optimized for grid
         imageSizes: [64, 96, 128, 256, 320, 384, 480, 640], // Grid sizes optimized for your layout
         dangerouslyAllowSVG: false,
@@ -41,6 +46,15 @@ const nextConfig = {
                     },
                 ],
             },
+            {
+                source: '/img/(.*)',
+                headers: [
+                    {
+                        key: 'Cache-Control',
+                        value: 'public, max-age=31536000, immutable',
+                    },
+                ],
+            },
             {
                 source: '/images/(.*)',
                 headers: [
@@ -0,0 +1,271 @@
+/**
+ * UnsplashFaster service worker (registered by ServiceWorkerRegistration in production)
+ *
+ *   shell  - the offline page, the build's CSS and JS it loads, and icons, precached on install
+ *   static - other /_next/static chunks, cache-first (file names are content hashed), capped at
+ *            MAX_STATIC_ENTRIES so chunks of past deploys don't pile up
+ *   pages  - gallery and image page HTML, network-first with the last copy kept for offline;
+ *            client-side navigations only fetch RSC payloads, so their HTML is stored alongside
+ *   images - /img variants, cache-first, capped at MAX_IMAGE_ENTRIES
+ *   data   - /api/prefetch-images lookups, stale-while-revalidate; batch lookups are answered
+ *            per href from the same entries and only the misses go to the network
+ *
+ * OptimizedLink's metadata lookups and Image() preloads both go through this worker, so what a
+ * link prefetched is still on hand after a reload - not just in the page's memory
+ *
+ * Bump CACHE_VERSION when the caching rules change; activate drops caches of other versions
+ */
+
+const CACHE_VERSION = 'v2';
+const SHELL_CACHE = `shell-${CACHE_VERSION}`;
+const STATIC_CACHE = `static-${CACHE_VERSION}`;
+const PAGE_CACHE = `pages-${CACHE_VERSION}`;
+const IMAGE_CACHE = `images-${CACHE_VERSION}`;
+const DATA_CACHE = `data-${CACHE_VERSION}`;
+const CACHES = [SHELL_CACHE, STATIC_CACHE, PAGE_CACHE, IMAGE_CACHE, DATA_CACHE];
+
+const OFFLINE_URL = '/offline';
+const SHELL_URLS = [OFFLINE_URL, '/favicon.ico'];
+
+// Roughly 60-80 MB of grid and detail variants
+const MAX_IMAGE_ENTRIES = 400;
+const MAX_PAGE_ENTRIES = 50;
+// A few builds' worth of route chunks
+const MAX_STATIC_ENTRIES = 300;
+const MAX_DATA_ENTRIES = 200;
+
+// Same paths as features/performance/lib/prefetch-api.ts
+const PREFETCH_IMAGES_PATH = '/api/prefetch-images';
+const PREFETCH_BATCH_PATH = '/api/prefetch-images/batch';
+
+// Batch answers are never revalidated in place, so older entries count as misses
+const BATCH_ENTRY_MAX_AGE_MS = 60 * 60 * 1000;
+// A page visited through client-side navigation is re-stored at most this often
+const PAGE_REFRESH_MS = 10 * 60 * 1000;
+const CACHED_AT_HEADER = 'x-sw-cached-at';
+
+// Pages worth keeping for offline: the gallery (any ?category=) and image details
+const OFFLINE_PAGE_PATTERN = /^\/(image\/[^/]+)?$/;
+
+// Build assets the page references - with inlineCss the styles are in the HTML, the rest are chunks
+const STATIC_ASSET_PATTERN = /(?:href|src)="(\/_next\/static\/[^"]+)"/g;
+
+// The offline page plus every chunk it loads, so it renders styled and interactive without a network
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  await cache.addAll(SHELL_URLS);
+
+  const offline = await cache.match(OFFLINE_URL);
+  const html = offline ? await offline.text() : '';
+  const assets = new Set(Array.from(html.matchAll(STATIC_ASSET_PATTERN), (match) => match[1].replace(/&amp;/g, '&')));
+  await cache.addAll(Array.from(assets));
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      // Every cache of an older CACHE_VERSION goes, along with its shell and chunks
+      .then((keys) => Promise.all(keys.filter((key) => !CACHES.includes(key)).map((key) => caches.delete(key))))
+      // Take over open tabs so their prefetches are cached without a reload
+      .then(() => self.clients.claim())
+  );
+});
+
+// Oldest entries go first - cache.keys() is in insertion order and hits are re-inserted
+async function trimCache(cacheName, maxEntries) {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+}
+
+async function putInCache(cacheName, request, response, maxEntries) {
+  const cache = await caches.open(cacheName);
+  await cache.delete(request);
+  await cache.put(request, response);
+  if (maxEntries) await trimCache(cacheName, maxEntries);
+}
+
+async function cacheFirst(event, cacheName, maxEntries) {
+  const cached = await caches.match(event.request, { cacheName });
+  if (cached) {
+    // Re-insert so the entry counts as recently used
+    if (maxEntries) event.waitUntil(putInCache(cacheName, event.request, cached.clone()));
+    return cached;
+  }
+
+  const response = await fetch(event.request);
+  if (response.ok) {
+    event.waitUntil(putInCache(cacheName, event.request, response.clone(), maxEntries));
+  }
+  return response;
+}
+
+async function staleWhileRevalidate(event, cacheName, maxEntries) {
+  const cached = await caches.match(event.request, { cacheName });
+  const network = fetch(event.request).then((response) => {
+    if (response.ok) {
+      event.waitUntil(putInCache(cacheName, event.request, response.clone(), maxEntries));
+    }
+    return response;
+  });
+
+  if (cached) {
+    event.waitUntil(network.catch(() => undefined));
+    return cached;
+  }
+  return network;
+}
+
+function prefetchImagesRequest(href) {
+  return new Request(new URL(`${PREFETCH_IMAGES_PATH}${href}`, self.location.origin));
+}
+
+// GET responses stored by staleWhileRevalidate carry the server's Date instead
+function isFresh(response, maxAgeMs) {
+  const cachedAt = Number(response.headers.get(CACHED_AT_HEADER)) || Date.parse(response.headers.get('date') ?? '');
+  return Number.isFinite(cachedAt) && Date.now() - cachedAt < maxAgeMs;
+}
+
+async function storeBatchResults(results) {
+  const cache = await caches.open(DATA_CACHE);
+  await Promise.all(Object.entries(results).map(([href, images]) => cache.put(
+    prefetchImagesRequest(href),
+    new Response(JSON.stringify({ images }), {
+      headers: { 'Content-Type': 'application/json', [CACHED_AT_HEADER]: String(Date.now()) },
+    })
+  )));
+  await trimCache(DATA_CACHE, MAX_DATA_ENTRIES);
+}
+
+// POST /api/prefetch-images/batch - fresh hrefs come from the data cache, the rest in one smaller batch
+async function prefetchBatch(event) {
+  let hrefs;
+  try {
+    hrefs = (await event.request.clone().json()).hrefs;
+  } catch {
+    return fetch(event.request);
+  }
+  if (!Array.isArray(hrefs)) return fetch(event.request);
+
+  const cache = await caches.open(DATA_CACHE);
+  const results = {};
+  const misses = [];
+  await Promise.all(hrefs.map(async (href) => {
+    const cached = await cache.match(prefetchImagesRequest(href));
+    if (cached && isFresh(cached, BATCH_ENTRY_MAX_AGE_MS)) {
+      results[href] = (await cached.json()).images ?? [];
+    } else {
+      misses.push(href);
+    }
+  }));
+
+  if (misses.length > 0) {
+    try {
+      const response = await fetch(PREFETCH_BATCH_PATH, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ hrefs: misses }),
+      });
+      if (!response.ok) return response;
+
+      const fetched = (await response.json()).results ?? {};
+      Object.assign(results, fetched);
+      event.waitUntil(storeBatchResults(fetched));
+    } catch {
+      // Offline - answer with what the cache had; the misses get no images
+      for (const href of misses) results[href] = [];
+    }
+  }
+
+  return new Response(JSON.stringify({ results }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+async function networkFirstPage(event, url) {
+  try {
+    const response = await fetch(event.request);
+    if (response.ok && OFFLINE_PAGE_PATTERN.test(url.pathname)) {
+      event.waitUntil(putInCache(PAGE_CACHE, event.request, response.clone(), MAX_PAGE_ENTRIES));
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(event.request, { cacheName: PAGE_CACHE });
+    if (cached) return cached;
+
+    const offline = await caches.match(OFFLINE_URL, { cacheName: SHELL_CACHE });
+    if (offline) return offline;
+    throw error;
+  }
+}
+
+// A client-side navigation fetched the page's RSC payload - store the page's HTML too, so the
+// full navigation Next.js falls back to when offline finds it in networkFirstPage
+async function storeNavigatedPage(url) {
+  const pageUrl = new URL(url);
+  pageUrl.searchParams.delete('_rsc');
+  const request = new Request(pageUrl);
+
+  const cached = await caches.match(request, { cacheName: PAGE_CACHE });
+  if (cached && isFresh(cached, PAGE_REFRESH_MS)) return;
+
+  try {
+    const response = await fetch(request);
+    const isHtml = response.headers.get('content-type')?.includes('text/html');
+    if (response.ok && isHtml) await putInCache(PAGE_CACHE, request, response, MAX_PAGE_ENTRIES);
+  } catch {
+    // Offline already - keep whatever copy there is
+  }
+}
+
+async function staticAsset(event) {
+  // Precached shell chunks are never trimmed
+  const shell = await caches.match(event.request, { cacheName: SHELL_CACHE });
+  return shell ?? cacheFirst(event, STATIC_CACHE, MAX_STATIC_ENTRIES);
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (request.method === 'POST' && url.pathname === PREFETCH_BATCH_PATH) {
+    event.respondWith(prefetchBatch(event));
+    return;
+  }
+  if (request.method !== 'GET') return;
+
+  // React Server Component payloads for client navigations - Next.js handles their failure
+  // by falling back to a full navigation, which lands in networkFirstPage below.
+  // Router prefetches are left alone: only pages the user actually opened are kept for offline
+  if (request.headers.get('RSC') || url.searchParams.has('_rsc')) {
+    if (!request.headers.get('Next-Router-Prefetch') && OFFLINE_PAGE_PATTERN.test(url.pathname)) {
+      event.waitUntil(storeNavigatedPage(url));
+    }
+    return;
+  }
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(event, url));
+    return;
+  }
+
+  if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(staticAsset(event));
+    return;
+  }
+
+  // Hotlinked Unsplash images are cross-origin (opaque) and left to the HTTP cache
+  if (url.pathname.startsWith('/img/')) {
+    event.respondWith(cacheFirst(event, IMAGE_CACHE, MAX_IMAGE_ENTRIES));
+    return;
+  }
+
+  if (url.pathname === PREFETCH_IMAGES_PATH || url.pathname.startsWith(`${PREFETCH_IMAGES_PATH}/`)) {
+    event.respondWith(staleWhileRevalidate(event, DATA_CACHE, MAX_DATA_ENTRIES));
+  }
+});
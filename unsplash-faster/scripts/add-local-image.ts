@@ -1,38 +1,65 @@
 import { config } from 'dotenv';
 config({ path: '.env.local' });
 
-import { db } from '../lib/db';
-import { images, categories } from '../lib/schema';
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import { parseArgs } from 'util';
+import { createLogger } from '../lib/logger';
+
+// Uploads a file from disk exactly like POST /api/images does
+// Usage: tsx scripts/add-local-image.ts <file> --title "..." [--description "..."] [--category <slug>]
+
+const log = createLogger('ingest');
+
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+};
 
 async function addLocalImage() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      title: { type: 'string' },
+      description: { type: 'string' },
+      category: { type: 'string' },
+    },
+  });
+
+  const [path] = positionals;
+  if (!path || !values.title) {
+    console.error('Usage: tsx scripts/add-local-image.ts <file> --title "..." [--description "..."] [--category <slug>]');
+    process.exit(1);
+  }
+
+  // Imported after dotenv so lib/db sees DATABASE_URL
+  const { createUploadedImage, uploadCacheTags, UploadError } = await import('../lib/uploads');
+  const { requestRevalidation } = await import('../features/performance/lib/revalidate');
+
   try {
-    // First, get an existing category ID
-    const existingCategories = await db.select().from(categories).limit(1);
-    const categoryId = existingCategories[0]?.id || 1;
-
-    // Insert local image
-    const newImage = await db.insert(images).values({
-      title: 'Local Test Image',
-      description: 'Test image stored locally to verify caching behavior',
-      imageUrl: '/images/test-image.jpg', // Local path - no Unsplash URL!
-      originalUrl: '/images/test-image.jpg',
-      categoryId: categoryId,
-      width: 800,
-      height: 600,
-      fileSize: 50000, // 50KB estimate
-      unsplashId: 'local-test-' + Date.now(), // Unique ID
-      unsplashUserId: 'local',
-      unsplashUserName: 'Local User',
-      unsplashLikes: 42,
-    }).returning();
-
-    console.log('✅ Local image added successfully:', newImage);
-    console.log('🖼️ Image URL:', newImage[0].imageUrl);
-    console.log('🆔 Image ID:', newImage[0].unsplashId);
+    const image = await createUploadedImage({
+      file: await readFile(path),
+      mimeType: MIME_TYPES[extname(path).toLowerCase()] ?? 'application/octet-stream',
+      title: values.title,
+      description: values.description,
+      categorySlug: values.category,
+    });
+
+    log.info('Local image added', { publicId: image.publicId, imageUrl: image.imageUrl });
 
+    await requestRevalidation(uploadCacheTags(values.category));
+    process.exit(0);
   } catch (error) {
-    console.error('❌ Error adding local image:', error);
+    if (error instanceof UploadError) {
+      log.error(error.message, { file: path });
+    } else {
+      log.error('Failed to add local image', { file: path, error });
+    }
+    process.exit(1);
   }
 }
 
-addLocalImage();
\ No newline at end of file
+addLocalImage();
@@ -0,0 +1,147 @@
+// Load environment variables FIRST before any other imports
+import * as dotenv from 'dotenv';
+import { resolve } from 'path';
+
+dotenv.config({ path: resolve(process.cwd(), '.env.local') });
+
+import { parseArgs } from 'util';
+import { asc, eq, isNull } from 'drizzle-orm';
+import { db } from '../lib/db';
+import { categories, images } from '../lib/schema';
+import { UnsplashAPI, UnsplashAPIError } from '../lib/unsplash';
+import { computeLocalPlaceholder, computePlaceholder, type ImagePlaceholder } from '../lib/placeholders';
+import { imageKeyFromUrl, readVariant } from '../lib/image-pipeline';
+import { CACHE_TAGS } from '../features/performance/lib/cache';
+import { requestRevalidation } from '../features/performance/lib/revalidate';
+import { createLogger } from '../lib/logger';
+
+// Fills dominant_color and blur_hash for images ingested before placeholders were stored.
+// Usage: tsx scripts/backfill-placeholders.ts [--limit N] [--from-pixels] [--dry-run]
+//   Unsplash photos use Unsplash's own values (one API request each) unless --from-pixels
+//   computes them from the image itself. Other sources (uploads, local folders) are always computed.
+
+const log = createLogger('ingest');
+
+// Plenty of pixels for a 4x3 BlurHash
+const SAMPLE_WIDTH = 64;
+
+type BackfillRow = Pick<typeof images.$inferSelect, 'id' | 'publicId' | 'source' | 'sourceId' | 'imageUrl'>;
+
+// Ask the Unsplash CDN for a small rendition instead of the stored 800px one
+function sampleUrl(imageUrl: string) {
+  const url = new URL(imageUrl);
+  if (url.hostname === 'images.unsplash.com') {
+    url.searchParams.set('w', SAMPLE_WIDTH.toString());
+  }
+  return url.toString();
+}
+
+async function placeholderFromPixels(unsplash: UnsplashAPI, row: BackfillRow): Promise<ImagePlaceholder> {
+  // Self-hosted: any stored variant is plenty
+  const imageKey = imageKeyFromUrl(row.imageUrl);
+  if (imageKey) {
+    const variant = await readVariant(imageKey, SAMPLE_WIDTH, 'webp');
+    if (!variant) throw new Error(`No stored variants for ${imageKey}`);
+    return computePlaceholder(variant.body);
+  }
+
+  if (row.imageUrl.startsWith('/')) {
+    return computeLocalPlaceholder(row.imageUrl);
+  }
+  return computePlaceholder(await unsplash.downloadImage(sampleUrl(row.imageUrl)));
+}
+
+async function placeholderFor(unsplash: UnsplashAPI, row: BackfillRow, fromPixels: boolean): Promise<ImagePlaceholder> {
+  if (fromPixels || row.source !== 'unsplash') {
+    return placeholderFromPixels(unsplash, row);
+  }
+
+  try {
+    const photo = await unsplash.getPhoto(row.sourceId);
+    if (photo.blur_hash) {
+      return { blurHash: photo.blur_hash, dominantColor: photo.color };
+    }
+  } catch (error) {
+    // Photos removed from Unsplash still have a usable stored copy
+    if (!(error instanceof UnsplashAPIError && error.status === 404)) throw error;
+    log.warn('Photo is gone from Unsplash, computing from the stored image', { publicId: row.publicId });
+  }
+
+  return placeholderFromPixels(unsplash, row);
+}
+
+async function backfillPlaceholders() {
+  const { values } = parseArgs({
+    options: {
+      limit: { type: 'string' },
+      'from-pixels': { type: 'boolean', default: false },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+  const limit = values.limit ? Number(values.limit) : undefined;
+  const fromPixels = values['from-pixels'];
+
+  if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+    throw new Error(`--limit must be a positive whole number (got ${values.limit})`);
+  }
+  if (!fromPixels && !process.env.UNSPLASH_ACCESS_KEY) {
+    throw new Error('UNSPLASH_ACCESS_KEY environment variable required (or pass --from-pixels)');
+  }
+
+  const unsplash = new UnsplashAPI(process.env.UNSPLASH_ACCESS_KEY ?? '');
+
+  const query = db
+    .select({
+      id: images.id,
+      publicId: images.publicId,
+      source: images.source,
+      sourceId: images.sourceId,
+      imageUrl: images.imageUrl,
+      categorySlug: categories.slug,
+    })
+    .from(images)
+    .leftJoin(categories, eq(images.categoryId, categories.id))
+    .where(isNull(images.blurHash))
+    .orderBy(asc(images.id))
+    .$dynamic();
+  const rows = await (limit ? query.limit(limit) : query);
+
+  log.info('Backfilling placeholders', { count: rows.length, dryRun: values['dry-run'] || undefined });
+
+  let filled = 0;
+  let failed = 0;
+  const touchedTags = new Set<string>();
+
+  for (const row of rows) {
+    try {
+      const placeholder = await placeholderFor(unsplash, row, fromPixels);
+
+      if (values['dry-run']) {
+        log.info('Would set placeholder', { publicId: row.publicId, ...placeholder });
+      } else {
+        await db
+          .update(images)
+          .set({ ...placeholder, updatedAt: new Date() })
+          .where(eq(images.id, row.id));
+        touchedTags.add(CACHE_TAGS.images).add(CACHE_TAGS.image(row.publicId));
+        if (row.categorySlug) touchedTags.add(CACHE_TAGS.category(row.categorySlug));
+        log.info('Set placeholder', { publicId: row.publicId, ...placeholder });
+      }
+      filled++;
+    } catch (error) {
+      log.error('Failed to backfill placeholder', { publicId: row.publicId, error });
+      failed++;
+    }
+  }
+
+  await requestRevalidation(touchedTags);
+  log.info(values['dry-run'] ? 'Backfill dry run completed' : 'Backfill completed', { filled, failed });
+  return failed;
+}
+
+backfillPlaceholders()
+  .then((failed) => process.exit(failed > 0 ? 1 : 0))
+  .catch((error) => {
+    log.error('Backfill failed', { error });
+    process.exit(1);
+  });
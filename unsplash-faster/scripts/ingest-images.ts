@@ -1,165 +1,558 @@
-import * as dotenv from 'dotenv';
-dotenv.config({ path: '.env.local' });
-
-import { UnsplashAPI } from '../lib/unsplash';
+// Provider ingestion used by the ingest CLI (scripts/ingest.ts)
+import { UnsplashAPI, type UnsplashAPIOptions } from '../lib/unsplash';
+import { LocalDirectorySource } from '../lib/local-source';
+import { publicIdFor, type ImageSourceProvider, type SourceImage, type SourceQuery } from '../lib/image-source';
 import { db } from '../lib/db';
-import { categories, images } from '../lib/schema';
-
-// Categories to search for on Unsplash - optimized for 200 high-quality images
-const SEARCH_CATEGORIES = [
-  { slug: 'nature', name: 'Nature', searchTerm: 'nature landscape mountains', count: 50 },
-  { slug: 'architecture', name: 'Architecture', searchTerm: 'modern architecture buildings', count: 40 },
-  { slug: 'technology', name: 'Technology', searchTerm: 'technology computer coding', count: 30 },
-  { slug: 'travel', name: 'Travel', searchTerm: 'travel destinations cities', count: 40 },
-  { slug: 'lifestyle', name: 'Lifestyle', searchTerm: 'lifestyle people coffee', count: 40 },
-];
+import { categories, images, ingestCheckpoints } from '../lib/schema';
+import type { IngestCheckpoint } from '../lib/schema';
+import type { CategoryDefinition } from '../lib/ingest-manifest';
+import { attachTagsToImage } from '../lib/tags';
+import {
+  imageKeyFromUrl,
+  imageStorageKey,
+  MAX_VARIANT_WIDTH,
+  selfHostedOriginalUrl,
+  storeImageVariants,
+  type HostedImage,
+} from '../lib/image-pipeline';
+import { isSelfHostedUrl } from '../lib/image-loader';
+import { computePlaceholder, type ImagePlaceholder } from '../lib/placeholders';
+import { CACHE_TAGS } from '../features/performance/lib/cache';
+import { requestRevalidation } from '../features/performance/lib/revalidate';
+import { createLogger } from '../lib/logger';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+
+const PER_PAGE = 30; // Unsplash list maximum
+
+const log = createLogger('ingest');
 
 interface IngestConfig {
   unsplashAccessKey: string;
+  // Client tuning - the CLI swaps in recorded fixtures with --fixtures
+  unsplash?: UnsplashAPIOptions;
+  // Categories from the manifest (data/categories.yaml) to ingest
+  categories: CategoryDefinition[];
+  // Report what would change without writing anything or registering downloads
+  dryRun?: boolean;
+  // Ignore saved checkpoints and walk every page again, refreshing existing rows
+  restart?: boolean;
+  // Fetch GET /photos/:id for new photos to store EXIF, location and the full tag list (one extra request each)
+  details?: boolean;
+  // Keep pointing imageUrl at Unsplash's CDN instead of downloading and encoding variants locally
+  hotlink?: boolean;
+}
+
+interface DirectoryIngestConfig {
+  // Folder holding the files and their manifest.json (lib/local-source.ts)
+  dir: string;
+  // Category every image in the folder goes into
+  category: Pick<CategoryDefinition, 'slug' | 'name'>;
+  dryRun?: boolean;
+}
+
+// What storing one image needs besides the image itself
+interface StoreContext {
+  provider: ImageSourceProvider;
+  categoryId: number;
+  categoryName: string;
+  details?: boolean;
+  hotlink?: boolean;
+}
+
+/**
+ * Where a category's photos come from: a curated topic, a collection or a keyword search
+ */
+export interface IngestFeed {
+  // Checkpoint key - keyword searches use the bare term so older checkpoints still match
+  key: string;
+  label: string;
+  query: SourceQuery;
+}
+
+type ImageChange = 'created' | 'updated' | 'unchanged';
+
+interface CategoryResult {
+  slug: string;
+  category: string;
+  target: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  // Images counted by checkpoints from earlier runs
+  previouslyIngested: number;
+  skipped: boolean;
+}
+
+type ExistingImage = Pick<
+  typeof images.$inferSelect,
+  'sourceId' | 'title' | 'description' | 'likes' | 'blurHash' | 'dominantColor' | 'imageUrl'
+>;
+
+function imageTitle(image: SourceImage, categoryName: string) {
+  return image.title || `${categoryName} Image`;
+}
+
+// Compare the fields an upsert refreshes against what is already stored
+function classifyChange(image: SourceImage, categoryName: string, existing?: ExistingImage): ImageChange {
+  if (!existing) return 'created';
+
+  // Providers without placeholders get computed ones, which never match their null
+  const placeholderChanged = image.blurHash !== null &&
+    (existing.blurHash !== image.blurHash || existing.dominantColor !== image.dominantColor);
+
+  const changed =
+    placeholderChanged ||
+    existing.likes !== image.likes ||
+    existing.description !== image.description ||
+    existing.title !== imageTitle(image, categoryName);
+
+  return changed ? 'updated' : 'unchanged';
+}
+
+// Curated feeds first, keyword searches fill whatever is left of the target
+export function categoryFeeds(category: CategoryDefinition): IngestFeed[] {
+  const { orientation, color } = category;
+
+  return [
+    ...category.topics.map((slug): IngestFeed => ({
+      key: `topic:${slug}`,
+      label: `topic "${slug}"`,
+      query: { feed: `topic:${slug}`, orientation },
+    })),
+    ...category.collections.map((id): IngestFeed => ({
+      key: `collection:${id}`,
+      label: `collection ${id}`,
+      query: { feed: `collection:${id}`, orientation },
+    })),
+    ...category.searchTerms.map((term): IngestFeed => ({
+      key: term,
+      label: `"${term}"`,
+      query: { feed: term, orientation, color },
+    })),
+  ];
+}
+
+// Checkpoints are tracked per category and feed
+export function checkpointKey(categorySlug: string, feedKey: string) {
+  return `${categorySlug}\u0000${feedKey}`;
+}
+
+export async function loadCheckpoints(): Promise<Map<string, IngestCheckpoint>> {
+  const rows = await db.select().from(ingestCheckpoints);
+  return new Map(rows.map(row => [checkpointKey(row.categorySlug, row.searchTerm), row]));
+}
+
+async function saveCheckpoint(
+  categorySlug: string,
+  feedKey: string,
+  lastPage: number,
+  pageOffset: number,
+  ingestedCount: number,
+  exhausted: boolean
+) {
+  const values = {
+    lastPage,
+    pageOffset,
+    ingestedCount,
+    completedAt: exhausted ? new Date() : null,
+    updatedAt: new Date(),
+  };
+
+  await db
+    .insert(ingestCheckpoints)
+    .values({ categorySlug, searchTerm: feedKey, ...values })
+    .onConflictDoUpdate({ target: [ingestCheckpoints.categorySlug, ingestCheckpoints.searchTerm], set: values });
+}
+
+// Cached queries a created or updated image shows up in
+function addImageCacheTags(tags: Set<string>, publicId: string, categorySlug: string) {
+  tags.add(CACHE_TAGS.images);
+  tags.add(CACHE_TAGS.categories);
+  tags.add(CACHE_TAGS.category(categorySlug));
+  tags.add(CACHE_TAGS.image(publicId));
+}
+
+// One lookup per page tells us which images are new and which only need refreshing
+async function findExisting(provider: ImageSourceProvider, pageImages: SourceImage[]): Promise<Map<string, ExistingImage>> {
+  if (pageImages.length === 0) return new Map();
+
+  const rows = await db
+    .select({
+      sourceId: images.sourceId,
+      title: images.title,
+      description: images.description,
+      likes: images.likes,
+      blurHash: images.blurHash,
+      dominantColor: images.dominantColor,
+      imageUrl: images.imageUrl,
+    })
+    .from(images)
+    .where(and(
+      eq(images.source, provider.source),
+      inArray(images.sourceId, pageImages.map(image => image.sourceId))
+    ));
+  return new Map(rows.map(row => [row.sourceId, row]));
+}
+
+/**
+ * Inserts a new image or refreshes likes, descriptions and placeholders on one we already have
+ * Returns the image's public id
+ */
+async function storeSourceImage(image: SourceImage, change: ImageChange, existing: ExistingImage | undefined, context: StoreContext) {
+  const { provider } = context;
+  const publicId = publicIdFor(provider.source, image.sourceId);
+
+  // Some providers count downloads (Unsplash requires it) - only for new images
+  if (change === 'created') {
+    await provider.recordDownload?.(image);
+  }
+
+  // List endpoints leave out camera, place and most tags
+  const details = context.details && change === 'created' && provider.getDetails
+    ? await provider.getDetails(image)
+    : null;
+
+  // Download the original once and encode our own AVIF/WebP ladder - only for images that
+  // aren't self-hosted yet, so re-runs don't redo the encoding. Providers that can't be
+  // hotlinked are always self-hosted
+  const hotlinkUrl = context.hotlink ? provider.hotlinkUrl(image) : null;
+  let original: Buffer | null = null;
+  let hosted: HostedImage | null = null;
+  if (!hotlinkUrl && !(existing && isSelfHostedUrl(existing.imageUrl))) {
+    original = await provider.fetchOriginal(image, MAX_VARIANT_WIDTH);
+    hosted = await storeImageVariants(original, imageStorageKey(publicId));
+  }
+
+  // Providers without placeholders get them from the pixels we just downloaded
+  let placeholder: ImagePlaceholder = { blurHash: image.blurHash, dominantColor: image.dominantColor };
+  if (!image.blurHash && original) {
+    placeholder = await computePlaceholder(original).catch(() => placeholder);
+  }
+
+  const imageUrl = hosted?.imageUrl ?? hotlinkUrl ?? existing?.imageUrl;
+  if (!imageUrl) throw new Error(`Nothing to serve ${image.sourceId} from`);
+
+  // Providers that can't be hotlinked link "full size" to the largest self-hosted variant
+  const selfHostedKey = imageKeyFromUrl(imageUrl);
+  const originalUrl = provider.hotlinkUrl(image)
+    ? image.originalUrl
+    : hosted?.originalUrl ?? (selfHostedKey ? selfHostedOriginalUrl(selfHostedKey, image.width) : imageUrl);
+
+  const [upsertedImage] = await db.insert(images).values({
+    title: imageTitle(image, context.categoryName),
+    description: image.description,
+    imageUrl,
+    originalUrl,
+    categoryId: context.categoryId,
+    width: image.width,
+    height: image.height,
+    fileSize: hosted?.fileSize,
+    publicId,
+    source: provider.source,
+    sourceId: image.sourceId,
+    sourceUrl: image.pageUrl,
+    authorId: image.author?.id,
+    authorName: image.author?.name,
+    authorUrl: image.author?.url,
+    likes: image.likes,
+    exif: details?.exif,
+    location: details?.location,
+    ...placeholder,
+  }).onConflictDoUpdate({
+    target: [images.source, images.sourceId],
+    set: {
+      title: sql`excluded.title`,
+      description: sql`excluded.description`,
+      likes: sql`excluded.likes`,
+      authorName: sql`excluded.author_name`,
+      authorUrl: sql`excluded.author_url`,
+      // Keep computed placeholders when a re-run didn't download the file again
+      dominantColor: sql`coalesce(excluded.dominant_color, images.dominant_color)`,
+      blurHash: sql`coalesce(excluded.blur_hash, images.blur_hash)`,
+      ...(hosted && {
+        imageUrl: sql`excluded.image_url`,
+        fileSize: sql`excluded.file_size`,
+      }),
+      updatedAt: sql`now()`,
+    },
+  }).returning({ id: images.id });
+
+  // Tag the image with the provider's keywords ("sunset", "aerial", ...)
+  await attachTagsToImage(upsertedImage.id, details?.tags ?? image.tags);
+  return publicId;
 }
 
 export async function ingestFromUnsplash(config: IngestConfig) {
-  console.log('🚀 Starting UnsplashFaster ingestion for 200 images...');
+  log.info('Starting incremental ingestion', {
+    categories: config.categories.length,
+    dryRun: config.dryRun || undefined,
+    restart: config.restart || undefined,
+  });
 
-  const unsplash = new UnsplashAPI(config.unsplashAccessKey);
+  const unsplash = new UnsplashAPI(config.unsplashAccessKey, config.unsplash);
+  const selectedSlugs = config.categories.map(category => category.slug);
 
   try {
-    // Step 1: Clear existing data and create categories
-    console.log('🧹 Clearing existing data...');
-    await db.delete(images);
-    await db.delete(categories);
-
-    console.log('📂 Creating categories...');
-    const insertedCategories = await db.insert(categories).values(
-      SEARCH_CATEGORIES.map(cat => ({ slug: cat.slug, name: cat.name }))
-    ).returning();
+    // Step 1: Make sure every category exists without touching existing rows
+    log.debug('Upserting categories');
+    if (!config.dryRun) {
+      await db
+        .insert(categories)
+        .values(config.categories.map(cat => ({ slug: cat.slug, name: cat.name })))
+        .onConflictDoUpdate({ target: categories.slug, set: { name: sql`excluded.name` } });
+    }
 
-    const categoryMap = insertedCategories.reduce((map, cat) => {
+    const existingCategories = await db.select().from(categories);
+    const categoryMap = existingCategories.reduce((map, cat) => {
       map[cat.slug] = cat.id;
       return map;
     }, {} as Record<string, number>);
 
-    console.log(`✅ Created ${insertedCategories.length} categories`);
+    if (config.restart && !config.dryRun) {
+      log.info('Restart requested - clearing ingest checkpoints', { categories: selectedSlugs });
+      await db.delete(ingestCheckpoints).where(inArray(ingestCheckpoints.categorySlug, selectedSlugs));
+    }
+    const checkpoints = config.restart ? new Map<string, IngestCheckpoint>() : await loadCheckpoints();
+
+    const results: CategoryResult[] = [];
+    // Category names may have changed in the upsert above
+    const touchedTags = new Set<string>(config.dryRun ? [] : [CACHE_TAGS.categories]);
+
+    // Step 2: Process each category, walking its feeds in order until the target is reached
+    for (const category of config.categories) {
+      const feeds = categoryFeeds(category);
+      const previouslyIngested = feeds.reduce(
+        (sum, feed) => sum + (checkpoints.get(checkpointKey(category.slug, feed.key))?.ingestedCount ?? 0),
+        0
+      );
+
+      const result: CategoryResult = {
+        slug: category.slug,
+        category: category.name,
+        target: category.targetCount,
+        created: 0,
+        updated: 0,
+        unchanged: 0,
+        previouslyIngested,
+        skipped: false,
+      };
+      results.push(result);
+
+      const categoryLog = log.child({ category: category.slug });
+
+      if (previouslyIngested >= category.targetCount) {
+        categoryLog.info('Skipping category - target already reached (use --restart to refresh)', {
+          ingested: previouslyIngested,
+          target: category.targetCount,
+        });
+        result.skipped = true;
+        continue;
+      }
 
-    let totalIngested = 0;
+      categoryLog.info('Processing category', { target: category.targetCount, ingested: previouslyIngested });
 
-    // Step 2: Process each category
-    for (const category of SEARCH_CATEGORIES) {
-      console.log(`\n🔍 Processing category: ${category.name} (target: ${category.count} images)`);
+      let categoryIngested = previouslyIngested;
 
       try {
-        // Calculate pages needed (30 images per page max)
-        const pagesNeeded = Math.ceil(category.count / 30);
-        let categoryIngested = 0;
-
-        for (let page = 1; page <= pagesNeeded && categoryIngested < category.count; page++) {
-          console.log(`📄 Fetching page ${page} for ${category.name}...`);
-
-          const searchResults = await unsplash.searchPhotos(
-            category.searchTerm,
-            Math.min(30, category.count - categoryIngested),
-            page
-          );
-
-          console.log(`📸 Found ${searchResults.results.length} images on page ${page}`);
-
-          // Process each image from this page
-          for (const unsplashImage of searchResults.results) {
-            if (categoryIngested >= category.count) break;
-
-            try {
-              console.log(`⬇️ Processing image ${categoryIngested + 1}/${category.count}: ${unsplashImage.id}`);
-
-              // Register download with Unsplash (required for API compliance)
-              await unsplash.registerDownload(unsplashImage.links.download_location);
-
-              // Get optimized URL (800px width, WebP format)
-              const optimizedUrl = unsplash.getOptimizedUrl(unsplashImage, 800, 80);
-
-              // Save to database
-              await db.insert(images).values({
-                title: unsplashImage.description || unsplashImage.alt_description || `${category.name} Image`,
-                description: unsplashImage.alt_description || unsplashImage.description,
-                imageUrl: optimizedUrl,
-                originalUrl: unsplashImage.urls.regular,
-                categoryId: categoryMap[category.slug],
-                width: unsplashImage.width,
-                height: unsplashImage.height,
-                unsplashId: unsplashImage.id,
-                unsplashUserId: unsplashImage.user.id,
-                unsplashUserName: unsplashImage.user.name,
-                unsplashLikes: unsplashImage.likes,
-              });
-
-              categoryIngested++;
-              totalIngested++;
-              console.log(`✅ Processed: ${unsplashImage.id} (${totalIngested}/200 total)`);
-
-              // Small delay to respect rate limits
-              await new Promise(resolve => setTimeout(resolve, 100));
-
-            } catch (error) {
-              console.error(`❌ Failed to process image ${unsplashImage.id}:`, error);
-              // Continue with next image
+        for (const feed of feeds) {
+          if (categoryIngested >= category.targetCount) break;
+
+          const checkpoint = checkpoints.get(checkpointKey(category.slug, feed.key));
+          if (checkpoint?.completedAt) {
+            categoryLog.info('Feed has no more results', { feed: feed.label, exhaustedAt: checkpoint.completedAt.toISOString() });
+            continue;
+          }
+
+          let feedIngested = checkpoint?.ingestedCount ?? 0;
+          // A page left part-way (target reached or an image failed) resumes at the image it stopped on
+          let resumeOffset = checkpoint?.pageOffset ?? 0;
+          const startPage = (checkpoint?.lastPage ?? 0) + (resumeOffset > 0 ? 0 : 1);
+
+          for (let page = startPage; categoryIngested < category.targetCount; page++) {
+            const feedPage = await unsplash.listImages(feed.query, page, PER_PAGE);
+            const offset = resumeOffset;
+            resumeOffset = 0;
+            const pageImages = feedPage.images.slice(offset, offset + category.targetCount - categoryIngested);
+            let processed = offset;
+            let failed = false;
+
+            categoryLog.debug('Fetched feed page', { feed: feed.label, page, count: feedPage.images.length });
+
+            const existingById = await findExisting(unsplash, pageImages);
+
+            for (const image of pageImages) {
+              const existing = existingById.get(image.sourceId);
+              const change = classifyChange(image, category.name, existing);
+
+              // A dry run counts the writes it would make, so it stops at the same target a real run does
+              if (config.dryRun) {
+                result[change]++;
+                categoryIngested++;
+                feedIngested++;
+                processed++;
+                if (change !== 'unchanged') {
+                  categoryLog.info(change === 'created' ? 'Would create image' : 'Would update image', { sourceId: image.sourceId });
+                }
+                continue;
+              }
+
+              try {
+                const publicId = await storeSourceImage(image, change, existing, {
+                  provider: unsplash,
+                  categoryId: categoryMap[category.slug],
+                  categoryName: category.name,
+                  details: config.details,
+                  hotlink: config.hotlink,
+                });
+                // Only stored images count toward the target and the checkpoint
+                result[change]++;
+                categoryIngested++;
+                feedIngested++;
+                processed++;
+                if (change !== 'unchanged') addImageCacheTags(touchedTags, publicId, category.slug);
+                categoryLog[change === 'unchanged' ? 'debug' : 'info'](`Image ${change}`, {
+                  sourceId: image.sourceId,
+                  progress: `${categoryIngested}/${category.targetCount}`,
+                });
+
+              } catch (error) {
+                // Stop this feed at the failed image so the checkpoint never moves past it
+                categoryLog.error('Failed to process image - the next run retries it', { sourceId: image.sourceId, error });
+                failed = true;
+                break;
+              }
+            }
+
+            // A finished page lets an interrupted run pick up from the next one; a page cut short by
+            // the target or a failure records how far it got, so the next run resumes inside it.
+            // A feed is only marked complete once Unsplash has no more pages for it,
+            // so raising targetCount in the manifest continues where the last run stopped.
+            const pageDone = processed >= feedPage.images.length;
+            const exhausted = pageDone && page >= feedPage.totalPages;
+            if (!config.dryRun) {
+              if (pageDone) {
+                await saveCheckpoint(category.slug, feed.key, page, 0, feedIngested, exhausted);
+              } else if (processed > 0) {
+                await saveCheckpoint(category.slug, feed.key, page, processed, feedIngested, false);
+              } else {
+                await saveCheckpoint(category.slug, feed.key, page - 1, 0, feedIngested, false);
+              }
             }
+
+            if (exhausted || failed) break;
           }
         }
 
-        console.log(`✅ Completed category: ${category.name} (${categoryIngested} images)`);
+        if (categoryIngested < category.targetCount) {
+          categoryLog.warn('Category ran out of photos - add more topics, collections or searchTerms to the manifest', {
+            ingested: categoryIngested,
+            target: category.targetCount,
+          });
+        }
+        categoryLog.info('Completed category', { created: result.created, updated: result.updated, unchanged: result.unchanged });
 
       } catch (error) {
-        console.error(`❌ Failed to process category ${category.name}:`, error);
-        // Continue with next category
+        categoryLog.error('Failed to process category', { error });
+        // Continue with next category - its checkpoints still point at the last finished pages
       }
     }
 
-    console.log(`\n🎉 Ingestion completed successfully!`);
-    console.log(`📊 Total images ingested: ${totalIngested}/200`);
+    const totals = results.reduce(
+      (sum, result) => ({
+        created: sum.created + result.created,
+        updated: sum.updated + result.updated,
+        unchanged: sum.unchanged + result.unchanged,
+      }),
+      { created: 0, updated: 0, unchanged: 0 }
+    );
+
+    // Pages showing what changed pick it up now rather than when their cache expires
+    await requestRevalidation(touchedTags);
+
+    log.info(config.dryRun ? 'Ingestion dry run completed' : 'Ingestion completed', totals);
 
     // Return summary
-    const finalImages = await db.select().from(images);
-    const finalCategories = await db.select().from(categories);
+    const finalCounts = await db
+      .select({ categoryId: images.categoryId, count: sql<number>`count(*)`.mapWith(Number) })
+      .from(images)
+      .groupBy(images.categoryId);
+    const countByCategory = new Map(finalCounts.map(row => [row.categoryId, row.count]));
 
     return {
       success: true,
-      categories: finalCategories.length,
-      images: finalImages.length,
-      breakdown: SEARCH_CATEGORIES.map(cat => ({
-        category: cat.name,
-        target: cat.count,
-        actual: finalImages.filter(img => img.categoryId === categoryMap[cat.slug]).length
-      }))
+      dryRun: Boolean(config.dryRun),
+      ...totals,
+      categories: existingCategories.length,
+      images: finalCounts.reduce((sum, row) => sum + row.count, 0),
+      breakdown: results.map(result => ({
+        ...result,
+        actual: countByCategory.get(categoryMap[result.slug]) ?? 0,
+      })),
     };
 
   } catch (error) {
-    console.error('💥 Ingestion failed:', error);
+    log.error('Ingestion failed', { error });
     throw error;
   }
 }
 
-// CLI runner
-async function main() {
-  const config: IngestConfig = {
-    unsplashAccessKey: process.env.UNSPLASH_ACCESS_KEY!,
-  };
-
-  // Validate config
-  if (!config.unsplashAccessKey) {
-    console.error('❌ UNSPLASH_ACCESS_KEY environment variable required');
-    process.exit(1);
+/**
+ * Imports a folder described by a manifest.json into one category
+ * No checkpoints - the folder is read locally, and re-running only updates what changed
+ */
+export async function ingestFromDirectory(config: DirectoryIngestConfig) {
+  log.info('Importing directory', { dir: config.dir, category: config.category.slug, dryRun: config.dryRun || undefined });
+
+  const provider = new LocalDirectorySource(config.dir);
+  const totals = { created: 0, updated: 0, unchanged: 0, failed: 0 };
+  const touchedTags = new Set<string>();
+
+  let categoryId = 0;
+  if (!config.dryRun) {
+    const [category] = await db
+      .insert(categories)
+      .values({ slug: config.category.slug, name: config.category.name })
+      .onConflictDoUpdate({ target: categories.slug, set: { name: sql`excluded.name` } })
+      .returning({ id: categories.id });
+    categoryId = category.id;
   }
 
-  try {
-    const result = await ingestFromUnsplash(config);
-    console.log('🎉 Final Summary:', result);
-    process.exit(0);
-  } catch (error) {
-    console.error('💥 Ingestion failed:', error);
-    process.exit(1);
+  for (let page = 1; ; page++) {
+    const { images: pageImages, totalPages } = await provider.listImages({ feed: '' }, page, PER_PAGE);
+    const existingById = await findExisting(provider, pageImages);
+
+    for (const image of pageImages) {
+      const existing = existingById.get(image.sourceId);
+      const change = classifyChange(image, config.category.name, existing);
+
+      if (config.dryRun) {
+        totals[change]++;
+        if (change !== 'unchanged') {
+          log.info(change === 'created' ? 'Would create image' : 'Would update image', { sourceId: image.sourceId });
+        }
+        continue;
+      }
+
+      try {
+        const publicId = await storeSourceImage(image, change, existing, {
+          provider,
+          categoryId,
+          categoryName: config.category.name,
+        });
+        totals[change]++;
+        if (change !== 'unchanged') addImageCacheTags(touchedTags, publicId, config.category.slug);
+        log[change === 'unchanged' ? 'debug' : 'info'](`Image ${change}`, { sourceId: image.sourceId });
+      } catch (error) {
+        totals.failed++;
+        log.error('Failed to import image', { sourceId: image.sourceId, error });
+      }
+    }
+
+    if (page >= totalPages) break;
   }
-}
 
-// Run if this is the main module
-if (import.meta.url === `file://${process.argv[1]}`) {
-  main();
-}
\ No newline at end of file
+  await requestRevalidation(touchedTags);
+
+  log.info(config.dryRun ? 'Import dry run completed' : 'Import completed', totals);
+  return { success: totals.failed === 0, dryRun: Boolean(config.dryRun), ...totals };
+}
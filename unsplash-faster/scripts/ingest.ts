@@ -0,0 +1,389 @@
+// Load environment variables FIRST before any other imports
+import * as dotenv from 'dotenv';
+import { resolve } from 'path';
+
+dotenv.config({ path: resolve(process.cwd(), '.env.local') });
+
+import { parseArgs } from 'util';
+import type { SQL } from 'drizzle-orm';
+import {
+  DEFAULT_MANIFEST_PATH,
+  ManifestError,
+  loadManifest,
+  type CategoryDefinition,
+  type IngestManifest,
+} from '../lib/ingest-manifest';
+import { createFixtureTransport, createRecordingTransport } from '../lib/unsplash-fixtures';
+import type { UnsplashAPIOptions } from '../lib/unsplash';
+import { createLogger } from '../lib/logger';
+
+const log = createLogger('ingest');
+
+const USAGE = `Usage: tsx scripts/ingest.ts <command> [options]
+
+Commands:
+  ingest                      Ingest every manifest category (or --only a subset)
+  add-category <slug>         Create one manifest category and ingest its images
+  import-dir <dir>            Import a folder of images described by <dir>/manifest.json into --category <slug>
+  recategorize --to <slug>    Move images from --from <slug> (default: uncategorized) to a manifest category
+  self-host                   Download hotlinked images and store AVIF/WebP variants (--limit N)
+  stats                       Compare image counts and checkpoints with manifest targets
+  validate                    Check the manifest and print the categories it defines
+
+Options:
+  --manifest <path>           Category manifest, .yaml or .json (default: ${DEFAULT_MANIFEST_PATH})
+  --only <slug,slug>          ingest: limit to these categories
+  --from <slug>               recategorize: source category slug or "uncategorized"
+  --to <slug>                 recategorize: target category slug
+  --category <slug>           import-dir: manifest category the images go into
+  --dry-run                   Report what would change without writing anything
+  --restart                   Ignore saved checkpoints and refresh every page again
+  --details                   Fetch each new photo's full record for EXIF, location and tags (one extra request per photo)
+  --hotlink                   ingest: keep serving new photos from Unsplash's CDN instead of self-hosting
+  --limit <n>                 self-host: process at most n images
+  --fixtures <dir>            Replay recorded Unsplash responses instead of calling the API
+  --record <dir>              Call the API and save every response into <dir> for --fixtures
+  -h, --help                  Show this message`;
+
+const UNCATEGORIZED = 'uncategorized';
+
+// Raised for bad command-line input - printed with the usage text
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+interface CliOptions {
+  manifest: string;
+  only?: string;
+  from?: string;
+  to?: string;
+  category?: string;
+  'dry-run': boolean;
+  restart: boolean;
+  details: boolean;
+  hotlink: boolean;
+  limit?: string;
+  fixtures?: string;
+  record?: string;
+}
+
+function findCategory(manifest: IngestManifest, slug: string): CategoryDefinition {
+  const category = manifest.categories.find(cat => cat.slug === slug);
+  if (!category) {
+    const known = manifest.categories.map(cat => cat.slug).join(', ');
+    throw new UsageError(`Category "${slug}" is not in the manifest (known: ${known})`);
+  }
+  return category;
+}
+
+function unsplashOptionsFor(options: CliOptions): UnsplashAPIOptions {
+  if (options.fixtures && options.record) {
+    throw new UsageError('--fixtures and --record can\'t be used together');
+  }
+  if (options.fixtures) {
+    // Replayed responses still carry the recorded rate-limit headers - no need to actually wait
+    return { transport: createFixtureTransport(options.fixtures), sleep: async () => {} };
+  }
+  if (options.record) return { transport: createRecordingTransport(options.record) };
+  return {};
+}
+
+function requireAccessKey(options: CliOptions) {
+  // Recorded fixtures never reach the API, so no key is needed to replay them
+  if (options.fixtures) return process.env.UNSPLASH_ACCESS_KEY ?? 'fixtures';
+
+  const accessKey = process.env.UNSPLASH_ACCESS_KEY;
+  if (!accessKey) {
+    throw new UsageError('UNSPLASH_ACCESS_KEY environment variable required');
+  }
+  return accessKey;
+}
+
+async function runIngest(categoriesToIngest: CategoryDefinition[], options: CliOptions) {
+  const unsplash = unsplashOptionsFor(options);
+  const unsplashAccessKey = requireAccessKey(options);
+
+  // Database modules are loaded lazily so `validate` works without DATABASE_URL
+  const { ingestFromUnsplash } = await import('./ingest-images');
+  const result = await ingestFromUnsplash({
+    unsplashAccessKey,
+    unsplash,
+    categories: categoriesToIngest,
+    dryRun: options['dry-run'],
+    restart: options.restart,
+    details: options.details,
+    hotlink: options.hotlink,
+  });
+
+  log.info('Final summary', result);
+}
+
+async function ingestCommand(manifest: IngestManifest, options: CliOptions) {
+  const slugs = options.only?.split(',').map(slug => slug.trim()).filter(Boolean);
+  const selected = slugs ? slugs.map(slug => findCategory(manifest, slug)) : manifest.categories;
+
+  await runIngest(selected, options);
+}
+
+async function addCategoryCommand(manifest: IngestManifest, slug: string | undefined, options: CliOptions) {
+  if (!slug) {
+    throw new UsageError('add-category needs the slug of a manifest category');
+  }
+
+  await runIngest([findCategory(manifest, slug)], options);
+}
+
+async function importDirCommand(manifest: IngestManifest, dir: string | undefined, options: CliOptions) {
+  if (!dir) {
+    throw new UsageError('import-dir needs the folder to import');
+  }
+  if (!options.category) {
+    throw new UsageError('import-dir needs --category <slug>');
+  }
+
+  const category = findCategory(manifest, options.category);
+  const { ingestFromDirectory } = await import('./ingest-images');
+  const result = await ingestFromDirectory({ dir, category, dryRun: options['dry-run'] });
+
+  log.info('Final summary', result);
+  if (!result.success) process.exitCode = 1;
+}
+
+async function recategorizeCommand(manifest: IngestManifest, options: CliOptions) {
+  if (!options.to) {
+    throw new UsageError('recategorize needs --to <slug>');
+  }
+
+  const target = findCategory(manifest, options.to);
+  const from = options.from ?? UNCATEGORIZED;
+
+  const { db } = await import('../lib/db');
+  const { categories, images } = await import('../lib/schema');
+  const { count, eq, isNull } = await import('drizzle-orm');
+
+  let source: SQL;
+  if (from === UNCATEGORIZED) {
+    source = isNull(images.categoryId);
+  } else {
+    const [sourceCategory] = await db.select().from(categories).where(eq(categories.slug, from));
+    if (!sourceCategory) {
+      throw new UsageError(`Category "${from}" does not exist in the database`);
+    }
+    source = eq(images.categoryId, sourceCategory.id);
+  }
+
+  const [{ matching }] = await db.select({ matching: count() }).from(images).where(source);
+  if (options['dry-run']) {
+    log.info('Would move images', { from, to: target.slug, count: matching });
+    return;
+  }
+
+  // Create the target category from the manifest if this is the first time we see it
+  const [targetCategory] = await db
+    .insert(categories)
+    .values({ slug: target.slug, name: target.name })
+    .onConflictDoUpdate({ target: categories.slug, set: { name: target.name } })
+    .returning();
+
+  const moved = await db
+    .update(images)
+    .set({ categoryId: targetCategory.id })
+    .where(source)
+    .returning({ publicId: images.publicId });
+
+  log.info('Moved images', { from, to: target.slug, count: moved.length });
+
+  const { CACHE_TAGS } = await import('../features/performance/lib/cache');
+  const { requestRevalidation } = await import('../features/performance/lib/revalidate');
+  await requestRevalidation([
+    CACHE_TAGS.images,
+    CACHE_TAGS.categories,
+    CACHE_TAGS.category(target.slug),
+    ...(from === UNCATEGORIZED ? [] : [CACHE_TAGS.category(from)]),
+    ...moved.map(row => CACHE_TAGS.image(row.publicId)),
+  ]);
+}
+
+async function selfHostCommand(options: CliOptions) {
+  const limit = options.limit ? Number(options.limit) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+    throw new UsageError(`--limit must be a positive whole number (got ${options.limit})`);
+  }
+
+  const { db } = await import('../lib/db');
+  const { categories, images } = await import('../lib/schema');
+  const { asc, eq, like } = await import('drizzle-orm');
+  const { UnsplashAPI } = await import('../lib/unsplash');
+  const { imageStorageKey, MAX_VARIANT_WIDTH, storeImageVariants } = await import('../lib/image-pipeline');
+  const { CACHE_TAGS } = await import('../features/performance/lib/cache');
+  const { requestRevalidation } = await import('../features/performance/lib/revalidate');
+
+  // CDN downloads don't count against the API quota, so no access key is needed
+  const unsplash = new UnsplashAPI(process.env.UNSPLASH_ACCESS_KEY ?? '', unsplashOptionsFor(options));
+
+  const query = db
+    .select({ id: images.id, publicId: images.publicId, imageUrl: images.imageUrl, categorySlug: categories.slug })
+    .from(images)
+    .leftJoin(categories, eq(images.categoryId, categories.id))
+    .where(like(images.imageUrl, 'http%'))
+    .orderBy(asc(images.id))
+    .$dynamic();
+  const rows = await (limit ? query.limit(limit) : query);
+
+  log.info('Found hotlinked images to self-host', { count: rows.length, dryRun: options['dry-run'] || undefined });
+  if (options['dry-run']) return;
+
+  let hostedCount = 0;
+  const touchedTags = new Set<string>();
+  for (const row of rows) {
+    try {
+      const sourceUrl = new URL(row.imageUrl).hostname === 'images.unsplash.com'
+        ? unsplash.getSourceUrl(row.imageUrl, MAX_VARIANT_WIDTH)
+        : row.imageUrl;
+      const original = await unsplash.downloadImage(sourceUrl);
+      const hosted = await storeImageVariants(original, imageStorageKey(row.publicId));
+
+      await db
+        .update(images)
+        .set({ imageUrl: hosted.imageUrl, fileSize: hosted.fileSize, updatedAt: new Date() })
+        .where(eq(images.id, row.id));
+
+      hostedCount++;
+      touchedTags.add(CACHE_TAGS.images).add(CACHE_TAGS.image(row.publicId));
+      if (row.categorySlug) touchedTags.add(CACHE_TAGS.category(row.categorySlug));
+      log.info('Self-hosted image', { publicId: row.publicId, variants: hosted.variantCount, fileSize: hosted.fileSize });
+    } catch (error) {
+      log.error('Failed to self-host image', { publicId: row.publicId, error });
+    }
+  }
+
+  await requestRevalidation(touchedTags);
+  log.info('Self-hosting completed', { hosted: hostedCount, total: rows.length });
+}
+
+async function statsCommand(manifest: IngestManifest) {
+  const { db } = await import('../lib/db');
+  const { categories, images } = await import('../lib/schema');
+  const { count, eq, isNull } = await import('drizzle-orm');
+  const { categoryFeeds, checkpointKey, loadCheckpoints } = await import('./ingest-images');
+
+  const rows = await db
+    .select({ slug: categories.slug, images: count(images.id) })
+    .from(categories)
+    .leftJoin(images, eq(images.categoryId, categories.id))
+    .groupBy(categories.slug);
+  const imagesBySlug = new Map(rows.map(row => [row.slug, row.images]));
+  const checkpoints = await loadCheckpoints();
+
+  console.log('\n📊 Manifest categories:');
+  for (const category of manifest.categories) {
+    const actual = imagesBySlug.get(category.slug);
+    const status = actual === undefined
+      ? 'not created yet'
+      : `${actual}/${category.targetCount} images${actual >= category.targetCount ? ' ✅' : ''}`;
+    console.log(`  ${category.name} (${category.slug}): ${status}`);
+
+    for (const feed of categoryFeeds(category)) {
+      const checkpoint = checkpoints.get(checkpointKey(category.slug, feed.key));
+      const progress = !checkpoint
+        ? 'not started'
+        : `${checkpoint.ingestedCount} ingested through page ${checkpoint.lastPage}${checkpoint.completedAt ? ', exhausted' : ''}`;
+      console.log(`    ${feed.label}: ${progress}`);
+    }
+  }
+
+  const manifestSlugs = new Set(manifest.categories.map(category => category.slug));
+  const unmanaged = rows.filter(row => !manifestSlugs.has(row.slug));
+  if (unmanaged.length > 0) {
+    console.log('\n📂 Categories not in the manifest:');
+    for (const row of unmanaged) {
+      console.log(`  ${row.slug}: ${row.images} images`);
+    }
+  }
+
+  const [{ uncategorized }] = await db
+    .select({ uncategorized: count() })
+    .from(images)
+    .where(isNull(images.categoryId));
+  if (uncategorized > 0) {
+    console.log(`\n⚠️ ${uncategorized} uncategorized images (move them with: recategorize --to <slug>)`);
+  }
+}
+
+function validateCommand(manifest: IngestManifest, path: string) {
+  console.log(`✅ ${path} is valid (${manifest.categories.length} categories)`);
+  for (const category of manifest.categories) {
+    const filters = [category.orientation, category.color].filter(Boolean).join(', ');
+    const sources = [
+      ...category.topics.map(slug => `topic "${slug}"`),
+      ...category.collections.map(id => `collection ${id}`),
+      ...category.searchTerms.map(term => `"${term}"`),
+    ];
+    console.log(`  ${category.slug}: ${category.targetCount} images from ${sources.join(', ')}${filters ? ` (${filters})` : ''}`);
+  }
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      manifest: { type: 'string', default: DEFAULT_MANIFEST_PATH },
+      only: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      category: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      restart: { type: 'boolean', default: false },
+      details: { type: 'boolean', default: false },
+      hotlink: { type: 'boolean', default: false },
+      limit: { type: 'string' },
+      fixtures: { type: 'string' },
+      record: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  const [command, ...rest] = positionals;
+
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  const options = values as CliOptions;
+  const manifest = await loadManifest(options.manifest);
+
+  switch (command) {
+    case 'ingest':
+      return ingestCommand(manifest, options);
+    case 'add-category':
+      return addCategoryCommand(manifest, rest[0], options);
+    case 'import-dir':
+      return importDirCommand(manifest, rest[0], options);
+    case 'recategorize':
+      return recategorizeCommand(manifest, options);
+    case 'self-host':
+      return selfHostCommand(options);
+    case 'stats':
+      return statsCommand(manifest);
+    case 'validate':
+      return validateCommand(manifest, options.manifest);
+    default:
+      throw new UsageError(`Unknown command "${command}"`);
+  }
+}
+
+main()
+  .then(() => process.exit())
+  .catch((error) => {
+    if (error instanceof ManifestError) {
+      console.error(`❌ ${error.message}`);
+    } else if (error instanceof UsageError || (error instanceof TypeError && 'code' in error && String(error.code).startsWith('ERR_PARSE_ARGS'))) {
+      console.error(`❌ ${error.message}\n\n${USAGE}`);
+    } else {
+      log.error('Ingest command failed', { error });
+    }
+    process.exit(1);
+  });
@@ -0,0 +1,254 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OptimizedLink } from '@/components/custom/OptimizedLink';
+import { PREFETCH_BATCH_PATH, PREFETCH_IMAGES_PATH, type PrefetchImage } from '@/features/performance/lib/prefetch-api';
+import { resetPrefetchUsage } from '@/features/performance/lib/prefetch-policy';
+import { GRID_SPECULATION, GRID_SPECULATION_TARGETS } from '@/features/performance/lib/speculation';
+import { SpeculationProvider } from '@/features/performance/components/SpeculationProvider';
+import { installBrowserMocks, MockImage, setIntersecting } from './helpers/browser-mocks';
+
+const router = vi.hoisted(() => ({ prefetch: vi.fn(), push: vi.fn() }));
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => router,
+}));
+
+// What /api/prefetch-images answers per href
+const pageImages: Record<string, PrefetchImage[]> = {};
+
+const fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+  const url = String(input);
+  const body = url === PREFETCH_BATCH_PATH
+    ? {
+      results: Object.fromEntries(
+        (JSON.parse(String(init?.body)).hrefs as string[]).map((href) => [href, pageImages[href] ?? []])
+      ),
+    }
+    : { images: pageImages[url.slice(PREFETCH_IMAGES_PATH.length)] ?? [] };
+
+  return { ok: true, status: 200, json: async () => body } as Response;
+});
+
+function prefetchImage(name: string, loading = 'eager'): PrefetchImage {
+  return {
+    src: `/img/${name}/640.avif`,
+    srcset: `/img/${name}/640.avif 640w, /img/${name}/1280.avif 1280w`,
+    sizes: '(max-width: 640px) 100vw, 33vw',
+    alt: name,
+    loading,
+  };
+}
+
+function preloadedSrcsets() {
+  return MockImage.instances.map((image) => image.srcset);
+}
+
+// Module-level caches (seenImages, imageCache) outlive each test, so every test uses its own hrefs and images
+describe('OptimizedLink', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    installBrowserMocks();
+    vi.stubGlobal('fetch', fetchMock);
+    resetPrefetchUsage();
+  });
+
+  afterEach(() => {
+    // Frees the preload slots for the next test
+    MockImage.loadAll();
+    cleanup();
+    vi.useRealTimers();
+  });
+
+  describe('viewport prefetching', () => {
+    it('prefetches the route once the link has been in view for 300ms', async () => {
+      render(<OptimizedLink href="/image/in-view">In view</OptimizedLink>);
+      setIntersecting(screen.getByRole('link'), true);
+
+      await vi.advanceTimersByTimeAsync(299);
+      expect(router.prefetch).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(router.prefetch).toHaveBeenCalledExactlyOnceWith('/image/in-view');
+    });
+
+    it('cancels the prefetch when the link leaves the viewport first', async () => {
+      render(<OptimizedLink href="/image/scrolled-past">Scrolled past</OptimizedLink>);
+      const link = screen.getByRole('link');
+
+      setIntersecting(link, true);
+      await vi.advanceTimersByTimeAsync(200);
+      setIntersecting(link, false);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(router.prefetch).not.toHaveBeenCalled();
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('does nothing with prefetch={false}', async () => {
+      render(<OptimizedLink href="/image/opted-out" prefetch={false}>Opted out</OptimizedLink>);
+      setIntersecting(screen.getByRole('link'), true);
+      await vi.runAllTimersAsync();
+
+      expect(router.prefetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('image preloading', () => {
+    it('preloads the eager images of the linked page', async () => {
+      pageImages['/image/eager'] = [prefetchImage('eager-hero')];
+
+      render(<OptimizedLink href="/image/eager">Eager</OptimizedLink>);
+      setIntersecting(screen.getByRole('link'), true);
+      await vi.runAllTimersAsync();
+
+      expect(fetchMock).toHaveBeenCalledWith(`${PREFETCH_IMAGES_PATH}/image/eager`, expect.anything());
+      expect(MockImage.instances).toHaveLength(1);
+      expect(MockImage.instances[0]).toMatchObject({
+        src: '/img/eager-hero/640.avif',
+        srcset: prefetchImage('eager-hero').srcset,
+        sizes: '(max-width: 640px) 100vw, 33vw',
+        fetchPriority: 'low',
+      });
+    });
+
+    it('skips images the page loads lazily', async () => {
+      pageImages['/tag/mixed'] = [prefetchImage('mixed-top'), prefetchImage('mixed-below-fold', 'lazy')];
+
+      render(<OptimizedLink href="/tag/mixed">Mixed</OptimizedLink>);
+      setIntersecting(screen.getByRole('link'), true);
+      await vi.runAllTimersAsync();
+
+      expect(preloadedSrcsets()).toEqual([prefetchImage('mixed-top').srcset]);
+    });
+
+    it('keeps at most four preloads in flight', async () => {
+      pageImages['/tag/crowded'] = ['one', 'two', 'three', 'four', 'five', 'six'].map((name) => prefetchImage(`crowded-${name}`));
+
+      render(<OptimizedLink href="/tag/crowded">Crowded</OptimizedLink>);
+      setIntersecting(screen.getByRole('link'), true);
+      await vi.runAllTimersAsync();
+      expect(MockImage.instances).toHaveLength(4);
+
+      MockImage.instances[0].load();
+      expect(MockImage.instances).toHaveLength(5);
+    });
+
+    it('preloads an image shared by several links only once', async () => {
+      const shared = prefetchImage('shared');
+      pageImages['/tag/dedupe-a'] = [shared, prefetchImage('only-a')];
+      pageImages['/tag/dedupe-b'] = [shared, prefetchImage('only-b')];
+
+      render(
+        <>
+          <OptimizedLink href="/tag/dedupe-a">A</OptimizedLink>
+          <OptimizedLink href="/tag/dedupe-b">B</OptimizedLink>
+        </>
+      );
+      for (const link of screen.getAllByRole('link')) setIntersecting(link, true);
+      await vi.runAllTimersAsync();
+
+      // Links that come into view together share one batch lookup
+      expect(fetchMock).toHaveBeenCalledExactlyOnceWith(PREFETCH_BATCH_PATH, expect.objectContaining({ method: 'POST' }));
+      expect(preloadedSrcsets().sort()).toEqual(
+        [shared.srcset, prefetchImage('only-a').srcset, prefetchImage('only-b').srcset].sort()
+      );
+    });
+
+    it('does not preload again when a link re-renders after prefetching', async () => {
+      pageImages['/image/rerendered'] = [prefetchImage('rerendered')];
+
+      const { rerender } = render(<OptimizedLink href="/image/rerendered">Before</OptimizedLink>);
+      setIntersecting(screen.getByRole('link'), true);
+      await vi.runAllTimersAsync();
+
+      rerender(<OptimizedLink href="/image/rerendered" className="updated">After</OptimizedLink>);
+      setIntersecting(screen.getByRole('link'), true);
+      await vi.runAllTimersAsync();
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(MockImage.instances).toHaveLength(1);
+    });
+  });
+
+  describe('mousedown navigation', () => {
+    it('navigates on mousedown for a plain left click', () => {
+      render(<OptimizedLink href="/image/clicked">Clicked</OptimizedLink>);
+      const link = screen.getByRole('link');
+
+      const notPrevented = fireEvent.mouseDown(link, { button: 0 });
+
+      expect(router.push).toHaveBeenCalledExactlyOnceWith('/image/clicked');
+      expect(notPrevented).toBe(false);
+    });
+
+    it.each([
+      ['middle button', { button: 1 }],
+      ['right button', { button: 2 }],
+      ['ctrl', { button: 0, ctrlKey: true }],
+      ['meta', { button: 0, metaKey: true }],
+      ['shift', { button: 0, shiftKey: true }],
+      ['alt', { button: 0, altKey: true }],
+    ])('leaves a %s click to the browser', (_, init) => {
+      render(<OptimizedLink href="/image/modified">Modified</OptimizedLink>);
+
+      fireEvent.mouseDown(screen.getByRole('link'), init);
+
+      expect(router.push).not.toHaveBeenCalled();
+    });
+
+    it('leaves links to other origins to the browser', () => {
+      render(<OptimizedLink href="https://unsplash.com/photos/abc">Elsewhere</OptimizedLink>);
+
+      fireEvent.mouseDown(screen.getByRole('link'), { button: 0 });
+
+      expect(router.push).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('links covered by speculation rules', () => {
+    function renderSpeculated(href: string, supported: boolean) {
+      vi.stubGlobal('HTMLScriptElement', { supports: (type: string) => supported && type === 'speculationrules' });
+      render(
+        <SpeculationProvider targets={GRID_SPECULATION_TARGETS} eagerness={GRID_SPECULATION}>
+          <OptimizedLink href={href}>Speculated</OptimizedLink>
+        </SpeculationProvider>
+      );
+      return screen.getByRole('link');
+    }
+
+    it('lets the browser follow the link and use its prerender', async () => {
+      const link = renderSpeculated('/image/speculated', true);
+
+      setIntersecting(link, true);
+      await vi.advanceTimersByTimeAsync(1000);
+      const mouseDownNotPrevented = fireEvent.mouseDown(link, { button: 0 });
+      const clickNotPrevented = fireEvent.click(link, { button: 0 });
+
+      expect(router.prefetch).not.toHaveBeenCalled();
+      expect(router.push).not.toHaveBeenCalled();
+      expect(mouseDownNotPrevented).toBe(true);
+      expect(clickNotPrevented).toBe(true);
+    });
+
+    it('navigates client-side once per click where the browser has no speculation rules', () => {
+      const link = renderSpeculated('/image/unsupported', false);
+
+      const mouseDownNotPrevented = fireEvent.mouseDown(link, { button: 0 });
+      const clickNotPrevented = fireEvent.click(link, { button: 0, detail: 1 });
+
+      expect(router.push).toHaveBeenCalledExactlyOnceWith('/image/unsupported');
+      expect(mouseDownNotPrevented).toBe(false);
+      expect(clickNotPrevented).toBe(false);
+    });
+
+    it('navigates client-side on keyboard activation where the browser has no speculation rules', () => {
+      const link = renderSpeculated('/image/unsupported', false);
+
+      const clickNotPrevented = fireEvent.click(link, { button: 0, detail: 0 });
+
+      expect(router.push).toHaveBeenCalledExactlyOnceWith('/image/unsupported');
+      expect(clickNotPrevented).toBe(false);
+    });
+  });
+});
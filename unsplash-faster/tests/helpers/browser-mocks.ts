@@ -0,0 +1,83 @@
+import { vi } from 'vitest';
+
+/**
+ * Stand-ins for the browser APIs OptimizedLink drives - jsdom has no IntersectionObserver,
+ * and its Image never loads anything
+ */
+
+export class MockIntersectionObserver {
+  static instances: MockIntersectionObserver[] = [];
+  readonly elements = new Set<Element>();
+
+  constructor(private readonly callback: IntersectionObserverCallback) {
+    MockIntersectionObserver.instances.push(this);
+  }
+
+  observe(element: Element) {
+    this.elements.add(element);
+  }
+
+  unobserve(element: Element) {
+    this.elements.delete(element);
+  }
+
+  disconnect() {
+    this.elements.clear();
+  }
+
+  takeRecords(): IntersectionObserverEntry[] {
+    return [];
+  }
+
+  notify(target: Element, isIntersecting: boolean) {
+    if (!this.elements.has(target)) return;
+    const entry = { target, isIntersecting, intersectionRatio: isIntersecting ? 1 : 0 } as IntersectionObserverEntry;
+    this.callback([entry], this as unknown as IntersectionObserver);
+  }
+}
+
+// Scroll an element into (or out of) view for every observer watching it
+export function setIntersecting(element: Element, isIntersecting: boolean) {
+  for (const observer of MockIntersectionObserver.instances) {
+    observer.notify(element, isIntersecting);
+  }
+}
+
+// Records what OptimizedLink asked the browser to preload; onload/onerror are left to the test
+export class MockImage {
+  static instances: MockImage[] = [];
+  decoding = '';
+  fetchPriority = '';
+  sizes = '';
+  srcset = '';
+  src = '';
+  currentSrc = '';
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  settled = false;
+
+  constructor() {
+    MockImage.instances.push(this);
+  }
+
+  load() {
+    if (this.settled) return;
+    this.settled = true;
+    this.onload?.();
+  }
+
+  // Settles every preload, including the ones that start as earlier ones finish
+  static loadAll() {
+    let pending: MockImage[];
+    while ((pending = MockImage.instances.filter((image) => !image.settled)).length > 0) {
+      for (const image of pending) image.load();
+    }
+  }
+}
+
+export function installBrowserMocks() {
+  MockIntersectionObserver.instances = [];
+  MockImage.instances = [];
+  vi.stubGlobal('IntersectionObserver', MockIntersectionObserver);
+  vi.stubGlobal('Image', MockImage);
+}
@@ -0,0 +1,104 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST } from '@/app/api/images/route';
+
+const uploads = vi.hoisted(() => ({
+  createUploadedImage: vi.fn(),
+}));
+
+// The upload pipeline (sharp, storage, Postgres) is replaced - these tests cover the route's guards
+vi.mock('@/lib/uploads', () => ({
+  UPLOAD_MAX_BYTES: 1024,
+  UPLOAD_SECRET_HEADER: 'x-upload-secret',
+  UploadError: class UploadError extends Error {},
+  uploadCacheTags: () => ['images'],
+  createUploadedImage: uploads.createUploadedImage,
+}));
+vi.mock('@/lib/queries', () => ({}));
+vi.mock('next/cache', () => ({ revalidateTag: vi.fn() }));
+
+const SECRET = 'test-upload-secret';
+
+// Every test uploads from its own address so the rate limit doesn't carry over
+let ip = 0;
+
+function upload(options: { secret?: string; body?: BodyInit; ip?: string } = {}) {
+  const form = new FormData();
+  form.set('file', new File([new Uint8Array([1, 2, 3])], 'photo.jpg', { type: 'image/jpeg' }));
+  form.set('title', 'A photo');
+
+  const headers = new Headers({ 'x-forwarded-for': options.ip ?? `10.0.0.${++ip}` });
+  if (options.secret) headers.set('authorization', `Bearer ${options.secret}`);
+
+  // duplex is required for stream bodies but missing from the DOM typings
+  return POST(new NextRequest(new Request('http://localhost:3000/api/images', {
+    method: 'POST',
+    headers,
+    body: options.body ?? form,
+    duplex: 'half',
+  } as RequestInit)));
+}
+
+// A body streamed in chunks, so no Content-Length header announces its size
+function streamOf(bytes: number) {
+  const chunk = new Uint8Array(16 * 1024);
+  let sent = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (sent >= bytes) return controller.close();
+      controller.enqueue(chunk);
+      sent += chunk.byteLength;
+    },
+  });
+}
+
+describe('POST /api/images', () => {
+  beforeEach(() => {
+    vi.stubEnv('UPLOAD_SECRET', SECRET);
+    uploads.createUploadedImage.mockResolvedValue({ publicId: 'abc123' });
+  });
+
+  it('stores an upload sent with the secret', async () => {
+    const response = await upload({ secret: SECRET });
+
+    expect(response.status).toBe(201);
+    expect(await response.json()).toEqual({ image: { publicId: 'abc123' } });
+    expect(uploads.createUploadedImage).toHaveBeenCalledWith(expect.objectContaining({
+      file: Buffer.from([1, 2, 3]),
+      mimeType: 'image/jpeg',
+      title: 'A photo',
+    }));
+  });
+
+  it('rejects a missing or wrong secret', async () => {
+    expect((await upload()).status).toBe(401);
+    expect((await upload({ secret: 'guess' })).status).toBe(401);
+    expect(uploads.createUploadedImage).not.toHaveBeenCalled();
+  });
+
+  it('is disabled until UPLOAD_SECRET is configured', async () => {
+    vi.stubEnv('UPLOAD_SECRET', '');
+
+    expect((await upload({ secret: SECRET })).status).toBe(503);
+  });
+
+  it('refuses a chunked body once it grows past the limit', async () => {
+    const response = await upload({ secret: SECRET, body: streamOf(128 * 1024) });
+
+    expect(response.status).toBe(413);
+    expect(uploads.createUploadedImage).not.toHaveBeenCalled();
+  });
+
+  it('throttles a client that keeps uploading', async () => {
+    // A made-up hop in front of the proxy's own doesn't make the client look new
+    for (let attempt = 0; attempt < 20; attempt++) {
+      expect((await upload({ secret: SECRET, ip: `10.9.9.${attempt}, 192.0.2.1` })).status).toBe(201);
+    }
+
+    const response = await upload({ secret: SECRET, ip: '192.0.2.1' });
+    expect(response.status).toBe(429);
+    expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0);
+
+    expect((await upload({ secret: SECRET, ip: '192.0.2.2' })).status).toBe(201);
+  });
+});
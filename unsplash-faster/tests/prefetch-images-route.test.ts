@@ -0,0 +1,183 @@
+import { readFileSync } from 'fs';
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { GET } from '@/app/api/prefetch-images/[[...rest]]/route';
+import { POST } from '@/app/api/prefetch-images/batch/route';
+import type { PrefetchBatchResponse, PrefetchImage } from '@/features/performance/lib/prefetch-api';
+
+const queries = vi.hoisted(() => ({
+  getImageById: vi.fn(),
+  getImages: vi.fn(),
+  getImagesByPhotographer: vi.fn(),
+  getImagesByTag: vi.fn(),
+  searchImages: vi.fn(),
+}));
+
+// Known routes resolve from these instead of the database
+vi.mock('@/lib/queries', () => queries);
+
+const ORIGIN = 'http://localhost:3000';
+const ABOUT_PAGE = readFileSync(new URL('./fixtures/about-page.html', import.meta.url), 'utf8');
+
+// Pages the scraping fallback can fetch; anything else is a 404
+const pages: Record<string, { status: number; body: string }> = {
+  '/about': { status: 200, body: ABOUT_PAGE },
+  '/broken': { status: 500, body: 'Internal Server Error' },
+};
+
+const fetchMock = vi.fn(async (input: RequestInfo | URL) => {
+  const page = pages[new URL(String(input)).pathname] ?? { status: 404, body: 'Not Found' };
+  return new Response(page.body, { status: page.status, headers: { 'Content-Type': 'text/html' } });
+});
+
+function get(href: string, headers?: HeadersInit) {
+  return GET(new NextRequest(`${ORIGIN}/api/prefetch-images${href}`, { headers }));
+}
+
+function postBatch(body: unknown) {
+  return POST(new NextRequest(`${ORIGIN}/api/prefetch-images/batch`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  }));
+}
+
+async function imagesOf(response: Response): Promise<PrefetchImage[]> {
+  return (await response.json()).images;
+}
+
+describe('GET /api/prefetch-images', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubEnv('APP_URL', ORIGIN);
+  });
+
+  describe('pages without a resolver', () => {
+    it('reads the images inside <main> from the rendered page', async () => {
+      const response = await get('/about');
+
+      expect(fetchMock).toHaveBeenCalledExactlyOnceWith(new URL(`${ORIGIN}/about`));
+      expect(response.status).toBe(200);
+      expect(await imagesOf(response)).toEqual([
+        {
+          srcset: '/img/hero/640.avif 640w, /img/hero/1280.avif 1280w',
+          sizes: '(max-width: 768px) 100vw, 50vw',
+          src: '/img/hero/1280.avif',
+          alt: 'Mountain lake at dawn',
+          loading: 'eager',
+        },
+        {
+          srcset: '/img/trail/480.avif 480w, /img/trail/640.avif 640w',
+          sizes: '33vw',
+          src: '/img/trail/640.avif',
+          alt: 'Forest trail',
+          loading: 'lazy',
+        },
+        {
+          srcset: '',
+          sizes: '',
+          src: '/img/plain/640.avif',
+          alt: 'No srcset',
+          loading: 'eager',
+        },
+      ]);
+    });
+
+    it('sends cache headers and an ETag', async () => {
+      const response = await get('/about');
+
+      expect(response.headers.get('Cache-Control')).toBe('public, max-age=3600');
+      expect(response.headers.get('ETag')).toMatch(/^"[\w-]+"$/);
+      expect(response.headers.get('x-request-id')).toBeTruthy();
+    });
+
+    it('answers 304 when the ETag still matches', async () => {
+      const etag = (await get('/about')).headers.get('ETag')!;
+
+      const response = await get('/about', { 'If-None-Match': etag });
+
+      expect(response.status).toBe(304);
+      expect(await response.text()).toBe('');
+    });
+
+    it('returns no images when the page fails to render', async () => {
+      const response = await get('/broken');
+
+      expect(response.status).toBe(200);
+      expect(await imagesOf(response)).toEqual([]);
+    });
+
+    it('renders pages on APP_URL whatever host the request names', async () => {
+      const response = await GET(new NextRequest('http://attacker.example/api/prefetch-images/about', {
+        headers: { Host: 'attacker.example' },
+      }));
+
+      expect(fetchMock).toHaveBeenCalledExactlyOnceWith(new URL(`${ORIGIN}/about`));
+      expect(await imagesOf(response)).toHaveLength(3);
+    });
+
+    it('never scrapes API routes', async () => {
+      const response = await get('/api/images');
+
+      expect(await imagesOf(response)).toEqual([]);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('routes resolved from data', () => {
+    it('describes the detail image without fetching the page', async () => {
+      queries.getImageById.mockResolvedValue({ imageUrl: '/img/harbour', title: 'Harbour at night' });
+
+      const response = await get('/image/harbour');
+
+      expect(queries.getImageById).toHaveBeenCalledWith('harbour');
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(response.headers.get('Cache-Control')).toBe('public, max-age=3600, stale-while-revalidate=86400');
+      expect(await imagesOf(response)).toEqual([
+        expect.objectContaining({
+          alt: 'Harbour at night',
+          sizes: '(max-width: 768px) 100vw, 50vw',
+          loading: 'eager',
+          srcset: expect.stringContaining('w,'),
+        }),
+      ]);
+    });
+
+    it('returns no images for an unknown image id', async () => {
+      queries.getImageById.mockResolvedValue(undefined);
+
+      expect(await imagesOf(await get('/image/missing'))).toEqual([]);
+    });
+  });
+});
+
+describe('POST /api/prefetch-images/batch', () => {
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubEnv('APP_URL', ORIGIN);
+  });
+
+  it('resolves every href, with no images for the ones that fail', async () => {
+    const response = await postBatch({ hrefs: ['/about', '/broken', '/about'] });
+    const { results }: PrefetchBatchResponse = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(Object.keys(results).sort()).toEqual(['/about', '/broken']);
+    expect(results['/about'].map((image) => image.alt)).toEqual(['Mountain lake at dawn', 'Forest trail', 'No srcset']);
+    expect(results['/broken']).toEqual([]);
+    // Duplicate hrefs are only resolved once
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it.each([
+    ['a missing list', {}],
+    ['an empty list', { hrefs: [] }],
+    ['an absolute URL', { hrefs: ['https://example.com/'] }],
+    ['too many hrefs', { hrefs: Array.from({ length: 49 }, (_, i) => `/image/${i}`) }],
+  ])('rejects %s', async (_, body) => {
+    const response = await postBatch(body);
+
+    expect(response.status).toBe(400);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
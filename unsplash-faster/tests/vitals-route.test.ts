@@ -0,0 +1,166 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST } from '@/app/api/vitals/route';
+import { webVitals } from '@/lib/schema';
+import { pruneWebVitalsIfDue } from '@/lib/web-vitals';
+import type { VitalSample } from '@/features/performance/lib/vitals-api';
+
+const insert = vi.hoisted(() => ({
+  values: vi.fn(),
+  table: vi.fn(),
+}));
+
+const prune = vi.hoisted(() => ({
+  returning: vi.fn(),
+}));
+
+// Inserts and deletes are captured instead of reaching Postgres
+vi.mock('@/lib/db', () => ({
+  db: {
+    insert: (table: unknown) => {
+      insert.table(table);
+      return { values: insert.values };
+    },
+    delete: () => ({ where: () => ({ returning: prune.returning }) }),
+  },
+}));
+
+function sample(overrides: Partial<VitalSample> = {}): VitalSample {
+  return {
+    name: 'LCP',
+    value: 1234.5,
+    rating: 'good',
+    path: '/image/abc123',
+    navigationType: 'navigate',
+    prefetched: false,
+    cacheStatus: 'network',
+    ...overrides,
+  };
+}
+
+function post(body: unknown, ip = '203.0.113.1') {
+  return POST(new NextRequest('http://localhost:3000/api/vitals', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-forwarded-for': ip },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  }));
+}
+
+describe('POST /api/vitals', () => {
+  beforeEach(() => {
+    insert.values.mockResolvedValue(undefined);
+    prune.returning.mockResolvedValue([]);
+  });
+
+  it('stores each sample against its route pattern', async () => {
+    const response = await post({
+      samples: [
+        sample(),
+        sample({ name: 'NAV', value: 84, rating: null, path: '/tag/sunset', navigationType: 'soft', prefetched: true, cacheStatus: 'router' }),
+        sample({ name: 'TTFB', value: 12, path: '/wp-login.php', cacheStatus: null }),
+      ],
+    });
+
+    expect(response.status).toBe(204);
+    expect(insert.table).toHaveBeenCalledWith(webVitals);
+    expect(insert.values).toHaveBeenCalledExactlyOnceWith([
+      {
+        name: 'LCP',
+        value: 1234.5,
+        rating: 'good',
+        route: '/image/[id]',
+        navigationType: 'navigate',
+        prefetched: false,
+        cacheStatus: 'network',
+      },
+      {
+        name: 'NAV',
+        value: 84,
+        rating: null,
+        route: '/tag/[slug]',
+        navigationType: 'soft',
+        prefetched: true,
+        cacheStatus: 'router',
+      },
+      {
+        name: 'TTFB',
+        value: 12,
+        rating: 'good',
+        route: '(other)',
+        navigationType: 'navigate',
+        prefetched: false,
+        cacheStatus: null,
+      },
+    ]);
+  });
+
+  it('drops malformed samples and keeps the rest', async () => {
+    const response = await post({
+      samples: [
+        sample({ name: 'FCP' as VitalSample['name'] }),
+        sample({ value: Number.NaN }),
+        sample({ value: -1 }),
+        sample({ path: 'https://example.com/' }),
+        sample({ cacheStatus: 'disk' as VitalSample['cacheStatus'] }),
+        sample({ name: 'CLS', value: 0.02 }),
+      ],
+    });
+
+    expect(response.status).toBe(204);
+    expect(insert.values).toHaveBeenCalledExactlyOnceWith([
+      expect.objectContaining({ name: 'CLS', value: 0.02 }),
+    ]);
+  });
+
+  it('skips the insert when no sample is valid', async () => {
+    const response = await post({ samples: [{ name: 'LCP' }] });
+
+    expect(response.status).toBe(204);
+    expect(insert.values).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ['a body that is not JSON', 'not json'],
+    ['a missing list', {}],
+    ['an empty list', { samples: [] }],
+    ['too many samples', { samples: Array.from({ length: 51 }, () => sample()) }],
+  ])('rejects %s', async (_, body) => {
+    const response = await post(body);
+
+    expect(response.status).toBe(400);
+    expect(insert.values).not.toHaveBeenCalled();
+  });
+
+  it('answers 500 when the samples cannot be stored', async () => {
+    insert.values.mockRejectedValue(new Error('connection refused'));
+
+    const response = await post({ samples: [sample()] });
+
+    expect(response.status).toBe(500);
+  });
+
+  it('throttles a client that floods the endpoint', async () => {
+    for (let beacon = 0; beacon < 30; beacon++) {
+      expect((await post({ samples: [sample()] }, '198.51.100.7')).status).toBe(204);
+    }
+
+    const response = await post({ samples: [sample()] }, '198.51.100.7');
+    expect(response.status).toBe(429);
+    expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0);
+
+    expect((await post({ samples: [sample()] }, '198.51.100.8')).status).toBe(204);
+  });
+});
+
+describe('pruneWebVitalsIfDue', () => {
+  it('deletes expired samples at most once an hour', async () => {
+    prune.returning.mockResolvedValue([{ id: 1 }, { id: 2 }]);
+    // Far enough ahead that the route's own pruning doesn't count
+    const now = Date.now() + 24 * 60 * 60 * 1000;
+
+    expect(await pruneWebVitalsIfDue(now)).toBe(2);
+    expect(await pruneWebVitalsIfDue(now + 30 * 60 * 1000)).toBeNull();
+    expect(await pruneWebVitalsIfDue(now + 61 * 60 * 1000)).toBe(2);
+    expect(prune.returning).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,18 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+// Unit and component tests (tests/**) - no database, no network: queries, fetch,
+// the Next.js router and the browser APIs OptimizedLink relies on are all mocked
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('.', import.meta.url)),
+    },
+  },
+  test: {
+    include: ['tests/**/*.test.{ts,tsx}'],
+    environment: 'node',
+    unstubGlobals: true,
+    clearMocks: true,
+  },
+});